@@ -0,0 +1,235 @@
+/**
+ * Lazy helpers for async iterables
+ * Adds chainable combinators to any async iterable, such as a paginated listing
+ */
+
+import type { AsyncIterableWithHelpers, MapConcurrentOptions } from './types/index.js';
+
+/**
+ * Wrap an async iterable with the AsyncIterableWithHelpers methods
+ *
+ * @example
+ * ```typescript
+ * const names = await client.configurations
+ *   .listAll()
+ *   .filter((config) => !config.archived)
+ *   .map((config) => config.name)
+ *   .take(10)
+ *   .toArray();
+ * ```
+ */
+export function withHelpers<T>(source: AsyncIterable<T>): AsyncIterableWithHelpers<T> {
+  const chain = <U>(generate: () => AsyncGenerator<U>): AsyncIterableWithHelpers<U> =>
+    withHelpers({ [Symbol.asyncIterator]: generate });
+
+  async function toArray(): Promise<T[]> {
+    const results: T[] = [];
+    for await (const item of source) {
+      results.push(item);
+    }
+    return results;
+  }
+
+  function map<U>(fn: (item: T, index: number) => U | Promise<U>): AsyncIterableWithHelpers<U> {
+    return chain(async function* () {
+      let index = 0;
+      for await (const item of source) {
+        yield await fn(item, index++);
+      }
+    });
+  }
+
+  function filter(fn: (item: T, index: number) => unknown): AsyncIterableWithHelpers<T> {
+    return chain(async function* () {
+      let index = 0;
+      for await (const item of source) {
+        if (await fn(item, index++)) {
+          yield item;
+        }
+      }
+    });
+  }
+
+  function take(count: number): AsyncIterableWithHelpers<T> {
+    return chain(async function* () {
+      if (count <= 0) {
+        return;
+      }
+      let taken = 0;
+      for await (const item of source) {
+        yield item;
+        if (++taken >= count) {
+          return;
+        }
+      }
+    });
+  }
+
+  function skip(count: number): AsyncIterableWithHelpers<T> {
+    return chain(async function* () {
+      let skipped = 0;
+      for await (const item of source) {
+        if (skipped < count) {
+          skipped++;
+          continue;
+        }
+        yield item;
+      }
+    });
+  }
+
+  function chunk(size: number): AsyncIterableWithHelpers<T[]> {
+    if (!(size >= 1)) {
+      throw new Error('Chunk size must be at least 1');
+    }
+    return chain(async function* () {
+      let batch: T[] = [];
+      for await (const item of source) {
+        batch.push(item);
+        if (batch.length >= size) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    });
+  }
+
+  function flatMap<U>(
+    fn: (item: T, index: number) => Iterable<U> | AsyncIterable<U> | Promise<Iterable<U>>
+  ): AsyncIterableWithHelpers<U> {
+    return chain(async function* () {
+      let index = 0;
+      for await (const item of source) {
+        yield* await fn(item, index++);
+      }
+    });
+  }
+
+  function mapConcurrent<U>(
+    fn: (item: T, index: number) => U | Promise<U>,
+    options: MapConcurrentOptions
+  ): AsyncIterableWithHelpers<U> {
+    const { concurrency } = options;
+    if (!(concurrency >= 1)) {
+      throw new Error('mapConcurrent concurrency must be at least 1');
+    }
+
+    return chain(async function* () {
+      const iterator = source[Symbol.asyncIterator]();
+      const running: Promise<U>[] = [];
+      let index = 0;
+      let exhausted = false;
+
+      try {
+        while (true) {
+          // Start callbacks until the window is full
+          while (!exhausted && running.length < concurrency) {
+            const next = await iterator.next();
+            if (next.done) {
+              exhausted = true;
+              break;
+            }
+            const position = index++;
+            const result = Promise.resolve().then(() => fn(next.value, position));
+            // Failures surface in order, when their result is reached
+            result.catch(() => undefined);
+            running.push(result);
+          }
+
+          const head = running.shift();
+          if (!head) {
+            return;
+          }
+          yield await head;
+        }
+      } finally {
+        if (!exhausted) {
+          await iterator.return?.();
+        }
+      }
+    });
+  }
+
+  async function reduce<U>(
+    fn: (result: U, item: T, index: number) => U | Promise<U>,
+    initial: U
+  ): Promise<U> {
+    let result = initial;
+    let index = 0;
+    for await (const item of source) {
+      result = await fn(result, item, index++);
+    }
+    return result;
+  }
+
+  async function find(fn: (item: T, index: number) => unknown): Promise<T | undefined> {
+    let index = 0;
+    for await (const item of source) {
+      if (await fn(item, index++)) {
+        return item;
+      }
+    }
+    return undefined;
+  }
+
+  async function some(fn: (item: T, index: number) => unknown): Promise<boolean> {
+    let index = 0;
+    for await (const item of source) {
+      if (await fn(item, index++)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async function count(): Promise<number> {
+    let total = 0;
+    for await (const _item of source) {
+      total++;
+    }
+    return total;
+  }
+
+  async function groupBy<K>(fn: (item: T, index: number) => K | Promise<K>): Promise<Map<K, T[]>> {
+    const groups = new Map<K, T[]>();
+    let index = 0;
+    for await (const item of source) {
+      const key = await fn(item, index++);
+      const group = groups.get(key);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key, [item]);
+      }
+    }
+    return groups;
+  }
+
+  async function first(): Promise<T | undefined> {
+    for await (const item of source) {
+      return item;
+    }
+    return undefined;
+  }
+
+  return {
+    [Symbol.asyncIterator]: () => source[Symbol.asyncIterator](),
+    toArray,
+    map,
+    filter: filter as AsyncIterableWithHelpers<T>['filter'],
+    take,
+    skip,
+    chunk,
+    flatMap,
+    mapConcurrent,
+    reduce,
+    find: find as AsyncIterableWithHelpers<T>['find'],
+    some,
+    count,
+    groupBy,
+    first,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Response cache stores
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { CacheEntry, CacheStore } from './types/index.js';
+
+/**
+ * In-memory cache store with least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map keeps insertion order, so re-inserting marks the key as recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * On-disk JSON cache store
+ * Keeps the cache across runs, e.g. for scheduled import jobs. Writes replace
+ * the file atomically; concurrent processes may overwrite each other's
+ * entries, which only costs an extra API call.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.enqueue(async () => (await this.read())[key]);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.update((entries) => {
+      entries[key] = entry;
+    });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await this.update((entries) => {
+      for (const key of Object.keys(entries)) {
+        if (key.startsWith(prefix)) {
+          delete entries[key];
+        }
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.enqueue(() => this.write({}));
+  }
+
+  /**
+   * Read, modify and write the file, dropping expired entries
+   */
+  private update(modify: (entries: Record<string, CacheEntry>) => void): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.read();
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.expiresAt <= now) {
+          delete entries[key];
+        }
+      }
+      modify(entries);
+      await this.write(entries);
+    });
+  }
+
+  /**
+   * Run file operations one at a time within this process
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read entries from disk, treating a missing or corrupt file as empty
+   */
+  private async read(): Promise<Record<string, CacheEntry>> {
+    try {
+      const parsed: unknown = JSON.parse(await readFile(this.filePath, 'utf8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, CacheEntry>)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Write entries atomically via a temporary file
+   */
+  private async write(entries: Record<string, CacheEntry>): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entries));
+    await rename(tempPath, this.filePath);
+  }
+}
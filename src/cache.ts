@@ -0,0 +1,106 @@
+/**
+ * Response cache for IT Glue API lookups
+ * Caches GET responses for collections with a cache policy
+ */
+
+import { createHash } from 'node:crypto';
+import type { CacheConfig, CachePolicy, CacheStore } from './types/index.js';
+import { MemoryCacheStore } from './cache-store.js';
+
+/**
+ * Get the collection a request path belongs to
+ * e.g. `/countries/1/relationships/regions` belongs to `regions`
+ */
+export function getCollection(path: string): string | undefined {
+  const segments = path
+    .split('?')[0]
+    .split('/')
+    .filter((segment) => segment && segment !== 'relationships' && !/^\d+$/.test(segment));
+  return segments[segments.length - 1];
+}
+
+/**
+ * Get the key prefix that keeps one account's responses apart in a shared store
+ * The API key is hashed so the store never holds it.
+ */
+export function getCacheScope(apiKey: string, baseUrl: string): string {
+  return createHash('sha256').update(`${baseUrl} ${apiKey}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * TTL-based response cache in front of GET requests
+ * Store failures are treated as cache misses so they never fail a request.
+ */
+export class ResponseCache {
+  private readonly config: CacheConfig;
+  private readonly store: CacheStore;
+  private readonly scope: string;
+
+  constructor(config: CacheConfig, scope: string) {
+    this.config = config;
+    this.store = config.store ?? new MemoryCacheStore();
+    this.scope = scope;
+  }
+
+  /**
+   * Get the cache policy for a path, if responses for it are cached
+   */
+  getPolicy(path: string): CachePolicy | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+    const collection = getCollection(path);
+    const policy = collection ? this.config.policies[collection] : undefined;
+    return policy || undefined;
+  }
+
+  /**
+   * Get a cached response that has not expired
+   */
+  async read(path: string, url: string): Promise<unknown> {
+    const entry = await this.store.get(this.buildKey(path, url)).catch(() => undefined);
+    // Expired entries are left for the next write to replace
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Cache a response according to the path's policy
+   */
+  async write(path: string, url: string, value: unknown): Promise<void> {
+    const policy = this.getPolicy(path);
+    if (!policy || value === undefined) {
+      return;
+    }
+    await this.store
+      .set(this.buildKey(path, url), { value, expiresAt: Date.now() + policy.ttlMs })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Drop every cached response for the collection a mutated path belongs to
+   */
+  async invalidate(path: string): Promise<void> {
+    const collection = getCollection(path);
+    if (!this.config.enabled || !collection) {
+      return;
+    }
+    await this.store.deletePrefix(`${this.scope} ${collection} `).catch(() => undefined);
+  }
+
+  /**
+   * Remove all cached responses for this scope
+   */
+  async clear(): Promise<void> {
+    await this.store.deletePrefix(`${this.scope} `);
+  }
+
+  /**
+   * Build the store key: scope, collection name, then the full request URL
+   */
+  private buildKey(path: string, url: string): string {
+    return `${this.scope} ${getCollection(path)} ${url}`;
+  }
+}
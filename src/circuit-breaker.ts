@@ -0,0 +1,157 @@
+/**
+ * Circuit breaker for IT Glue API requests
+ * Stops sending requests during sustained outages and probes for recovery
+ */
+
+import type { CircuitBreakerConfig, CircuitState, HttpMethod } from './types/index.js';
+import {
+  ITGlueCircuitOpenError,
+  ITGlueError,
+  ITGlueNetworkError,
+  ITGlueServerError,
+} from './errors.js';
+
+/**
+ * Circuit breaker with closed, open and half-open states
+ *
+ * Consecutive `ITGlueServerError`/`ITGlueNetworkError` failures open the
+ * circuit. Once `resetTimeoutMs` has passed, a limited number of trial
+ * requests are let through: a success closes the circuit, a failure opens it again.
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | undefined;
+  private trials = 0;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get the current state, moving from open to half-open once the reset timeout elapses
+   */
+  getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== undefined &&
+      Date.now() - this.openedAt >= this.config.resetTimeoutMs
+    ) {
+      this.state = 'half-open';
+      this.trials = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Claim permission to send a request
+   * Throws ITGlueCircuitOpenError while the circuit is open or all trial slots are taken.
+   * Every successful call must be followed by exactly one `record()`.
+   */
+  acquire(url?: string, method?: HttpMethod): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const state = this.getState();
+    if (state === 'closed') {
+      return;
+    }
+
+    if (state === 'half-open' && this.trials < this.config.halfOpenMaxRequests) {
+      this.trials++;
+      return;
+    }
+
+    throw new ITGlueCircuitOpenError(
+      'Circuit breaker is open; IT Glue appears to be unavailable.',
+      this.getRetryAt(),
+      url,
+      method
+    );
+  }
+
+  /**
+   * Record the outcome of a request started with `acquire()`
+   * Pass no error for a success. Errors without an API response other than
+   * network failures (timeouts, aborts) neither trip nor reset the circuit.
+   */
+  record(error?: unknown): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const state = this.getState();
+    if (state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+    }
+
+    if (error instanceof ITGlueServerError || error instanceof ITGlueNetworkError) {
+      this.failures++;
+      if (state === 'half-open' || this.failures >= this.config.failureThreshold) {
+        this.open();
+      }
+      return;
+    }
+
+    // Any response from the API, even a 4xx, shows that it is reachable
+    const reachedApi = error === undefined || (error instanceof ITGlueError && error.statusCode > 0);
+    if (reachedApi) {
+      this.close();
+    }
+  }
+
+  /**
+   * Reset the circuit breaker to closed (for testing or reconnection)
+   */
+  reset(): void {
+    this.close();
+  }
+
+  /**
+   * Get circuit breaker status for debugging/monitoring
+   */
+  getStatus(): {
+    enabled: boolean;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt?: number;
+    retryAt?: number;
+  } {
+    const state = this.getState();
+    return {
+      enabled: this.config.enabled,
+      state,
+      consecutiveFailures: this.failures,
+      openedAt: state === 'closed' ? undefined : this.openedAt,
+      retryAt: state === 'open' ? this.getRetryAt() : undefined,
+    };
+  }
+
+  /**
+   * Open the circuit, starting the reset timeout
+   */
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trials = 0;
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  private close(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trials = 0;
+  }
+
+  /**
+   * Time (ms since epoch) at which the open circuit allows a trial request
+   */
+  private getRetryAt(): number {
+    return (this.openedAt ?? Date.now()) + this.config.resetTimeoutMs;
+  }
+}
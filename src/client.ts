@@ -3,10 +3,12 @@
  * Main entry point for interacting with the IT Glue API
  */
 
-import type { ITGlueClientConfig } from './types/index.js';
+import type { ITGlueClientConfig, Middleware } from './types/index.js';
 import { resolveConfig, type ResolvedConfig } from './config.js';
 import { HttpClient } from './http.js';
 import { RateLimiter } from './rate-limiter.js';
+import { RequestScheduler } from './scheduler.js';
+import { CircuitBreaker } from './circuit-breaker.js';
 import {
   // Organizations
   OrganizationsResource,
@@ -216,6 +218,27 @@ export class ITGlueClient {
     return { ...this.config };
   }
 
+  /**
+   * Register a request/response middleware
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   onRequest(ctx) {
+   *     ctx.headers['x-correlation-id'] = randomUUID();
+   *     ctx.state.startedAt = Date.now();
+   *   },
+   *   onResponse(ctx, response) {
+   *     console.log(ctx.method, ctx.url, response.status, Date.now() - (ctx.state.startedAt as number));
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.http.use(middleware);
+    return this;
+  }
+
   /**
    * Get the rate limiter status
    * Useful for monitoring rate limit usage
@@ -224,10 +247,39 @@ export class ITGlueClient {
    * ```typescript
    * const status = client.getRateLimitStatus();
    * console.log(`Remaining requests: ${status.remaining}`);
+   * console.log(`Queued background calls: ${status.scheduler.lanes.background}`);
+   * ```
+   */
+  getRateLimitStatus(): ReturnType<RateLimiter['getStatus']> & {
+    scheduler: ReturnType<RequestScheduler['getStatus']>;
+  } {
+    return {
+      ...this.http.getRateLimiter().getStatus(),
+      scheduler: this.http.getScheduler().getStatus(),
+    };
+  }
+
+  /**
+   * Get the current circuit breaker status
+   * While the circuit is open, requests fail fast with ITGlueCircuitOpenError
+   *
+   * @example
+   * ```typescript
+   * const breaker = client.getCircuitBreakerStatus();
+   * if (breaker.state === 'open') {
+   *   console.log(`IT Glue unavailable, next attempt at ${new Date(breaker.retryAt!)}`);
+   * }
    * ```
    */
-  getRateLimitStatus(): ReturnType<RateLimiter['getStatus']> {
-    return this.http.getRateLimiter().getStatus();
+  getCircuitBreakerStatus(): ReturnType<CircuitBreaker['getStatus']> {
+    return this.http.getCircuitBreaker().getStatus();
+  }
+
+  /**
+   * Remove all cached lookup responses
+   */
+  async clearCache(): Promise<void> {
+    await this.http.getCache().clear();
   }
 
   /**
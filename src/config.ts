@@ -2,14 +2,31 @@
  * Configuration utilities for IT Glue client
  */
 
+import type { Dispatcher } from 'undici';
+import { fetch as undiciFetch } from 'undici';
 import type {
+  CacheConfig,
+  CircuitBreakerConfig,
+  CoercionConfig,
+  FetchFunction,
   ITGlueClientConfig,
   ITGlueRegion,
+  KeyTransformConfig,
+  Middleware,
   RateLimitConfig,
+  RetryPolicy,
+  RetryPolicyConfig,
+  SchedulerConfig,
 } from './types/index.js';
 import {
   REGION_URLS,
+  DEFAULT_CACHE_CONFIG,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  DEFAULT_COERCION_CONFIG,
+  DEFAULT_KEY_TRANSFORM_CONFIG,
   DEFAULT_RATE_LIMIT_CONFIG,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_SCHEDULER_CONFIG,
 } from './types/index.js';
 
 /**
@@ -29,7 +46,16 @@ export interface ResolvedConfig {
   baseUrl: string;
   timeout: number;
   rateLimiter: RateLimitConfig;
+  scheduler: SchedulerConfig;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreakerConfig;
+  cache: CacheConfig;
+  keyTransform: KeyTransformConfig;
+  coerce: CoercionConfig;
   includeRelationships: boolean;
+  fetch: FetchFunction;
+  dispatcher?: Dispatcher;
+  middleware: Middleware[];
 }
 
 /**
@@ -88,6 +114,76 @@ export function resolveRateLimitConfig(
   };
 }
 
+/**
+ * Merge scheduler configuration with defaults
+ */
+export function resolveSchedulerConfig(
+  config?: Partial<SchedulerConfig>
+): SchedulerConfig {
+  const resolved = {
+    ...DEFAULT_SCHEDULER_CONFIG,
+    ...config,
+  };
+
+  if (!(resolved.maxConcurrency >= 1)) {
+    throw new Error('Scheduler maxConcurrency must be at least 1');
+  }
+
+  return resolved;
+}
+
+/**
+ * Merge a retry policy with defaults
+ * Attempt count and base delay fall back to the rate limiter's retry settings.
+ */
+export function resolveRetryPolicy(
+  config: RetryPolicyConfig | undefined,
+  rateLimiter: RateLimitConfig
+): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: rateLimiter.maxRetries,
+    baseDelayMs: rateLimiter.retryAfterMs,
+    ...config,
+    methods: {
+      ...DEFAULT_RETRY_POLICY.methods,
+      ...config?.methods,
+    },
+  };
+}
+
+/**
+ * Merge response cache configuration with defaults
+ */
+export function resolveCacheConfig(config?: Partial<CacheConfig>): CacheConfig {
+  return {
+    ...DEFAULT_CACHE_CONFIG,
+    ...config,
+    policies: {
+      ...DEFAULT_CACHE_CONFIG.policies,
+      ...config?.policies,
+    },
+  };
+}
+
+/**
+ * Resolve the fetch implementation used for requests
+ */
+export function resolveFetch(config: ITGlueClientConfig): FetchFunction {
+  if (config.fetch) {
+    return config.fetch;
+  }
+
+  // A dispatcher must be used with the fetch from the same undici version
+  if (config.dispatcher) {
+    return (url, init) => undiciFetch(url, init);
+  }
+
+  // Look up the global at call time so it can be patched after construction.
+  // No dispatcher is configured here, so the global fetch never receives one.
+  return (url, { dispatcher: _dispatcher, ...init }) => fetch(url, init);
+}
+
 /**
  * Validate and resolve the full client configuration
  */
@@ -106,7 +202,25 @@ export function resolveConfig(config: ITGlueClientConfig): ResolvedConfig {
     baseUrl,
     timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
     rateLimiter,
+    scheduler: resolveSchedulerConfig(config.scheduler),
+    retry: resolveRetryPolicy(config.retry, rateLimiter),
+    circuitBreaker: {
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+      ...config.circuitBreaker,
+    },
+    cache: resolveCacheConfig(config.cache),
+    keyTransform: {
+      ...DEFAULT_KEY_TRANSFORM_CONFIG,
+      ...config.keyTransform,
+    },
+    coerce: {
+      ...DEFAULT_COERCION_CONFIG,
+      ...config.coerce,
+    },
     includeRelationships: config.includeRelationships ?? DEFAULT_CONFIG.includeRelationships,
+    fetch: resolveFetch(config),
+    dispatcher: config.dispatcher,
+    middleware: [...(config.middleware ?? [])],
   };
 }
 
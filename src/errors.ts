@@ -2,7 +2,7 @@
  * Custom error classes for IT Glue API errors
  */
 
-import type { JsonApiError } from './types/index.js';
+import type { JsonApiError, PaginationCheckpoint, RetryableErrorKind } from './types/index.js';
 
 /**
  * Base error class for all IT Glue errors
@@ -199,6 +199,103 @@ export class ITGlueTimeoutError extends ITGlueError {
   }
 }
 
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class ITGlueAbortError extends ITGlueError {
+  /** Reason passed to `AbortController.abort()` */
+  public readonly reason: unknown;
+
+  constructor(
+    message: string = 'Request was aborted.',
+    reason?: unknown,
+    url?: string,
+    method?: string
+  ) {
+    super(message, 0, undefined, url, method);
+    this.name = 'ITGlueAbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown without contacting the API while the circuit breaker is open
+ */
+export class ITGlueCircuitOpenError extends ITGlueError {
+  /** Time (ms since epoch) after which a trial request will be allowed */
+  public readonly retryAt: number;
+
+  constructor(
+    message: string = 'Circuit breaker is open; IT Glue appears to be unavailable.',
+    retryAt: number,
+    url?: string,
+    method?: string
+  ) {
+    super(message, 0, undefined, url, method);
+    this.name = 'ITGlueCircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Error thrown when a pagination checkpoint was taken with different params
+ */
+export class ITGlueCheckpointError extends ITGlueError {
+  /** The checkpoint that could not be resumed */
+  public readonly checkpoint: PaginationCheckpoint;
+
+  constructor(
+    message: string = 'Cannot resume pagination from this checkpoint.',
+    checkpoint: PaginationCheckpoint
+  ) {
+    super(message, 0);
+    this.name = 'ITGlueCheckpointError';
+    this.checkpoint = checkpoint;
+  }
+}
+
+/**
+ * Classify an error for retry policies
+ * Returns undefined for errors that are never retried
+ */
+export function getRetryableErrorKind(error: unknown): RetryableErrorKind | undefined {
+  if (error instanceof ITGlueRateLimitError) {
+    return 'rateLimit';
+  }
+  if (error instanceof ITGlueServerError) {
+    return 'server';
+  }
+  if (error instanceof ITGlueNetworkError) {
+    return 'network';
+  }
+  if (error instanceof ITGlueTimeoutError) {
+    return 'timeout';
+  }
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header value into a delay in milliseconds
+ * Accepts both delta-seconds and HTTP-date formats
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
 /**
  * Create an appropriate error instance based on HTTP status code
  */
@@ -206,7 +303,8 @@ export function createErrorFromResponse(
   statusCode: number,
   response: unknown,
   url?: string,
-  method?: string
+  method?: string,
+  headers?: Headers
 ): ITGlueError {
   const responseBody = response as { errors?: JsonApiError[]; message?: string } | undefined;
   const errors = responseBody?.errors;
@@ -243,7 +341,7 @@ export function createErrorFromResponse(
     case 429:
       return new ITGlueRateLimitError(
         message || 'Rate limit exceeded.',
-        undefined,
+        parseRetryAfter(headers?.get('retry-after')),
         response,
         url,
         method
@@ -3,31 +3,48 @@
  * Handles request/response processing, rate limiting, and error handling
  */
 
-import type { HttpMethod, JsonApiResponse } from './types/index.js';
+import type {
+  CallOptions,
+  FetchRequestInit,
+  HttpMethod,
+  JsonApiResponse,
+  Middleware,
+  MiddlewareContext,
+  ResponseDetails,
+  RetryableErrorKind,
+  RetryAttempt,
+} from './types/index.js';
 import type { ResolvedConfig } from './config.js';
 import { getHeaders } from './config.js';
 import { RateLimiter, retryWithBackoff } from './rate-limiter.js';
+import { RequestScheduler } from './scheduler.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { ResponseCache, getCacheScope } from './cache.js';
 import {
   createErrorFromResponse,
+  getRetryableErrorKind,
+  ITGlueAbortError,
+  ITGlueError,
   ITGlueNetworkError,
   ITGlueRateLimitError,
-  ITGlueServerError,
   ITGlueTimeoutError,
 } from './errors.js';
-import { buildQueryParams, deserialize, serialize } from './jsonapi.js';
+import {
+  buildQueryParams,
+  convertKeysToCamel,
+  deserialize,
+  serialize,
+  serializeBulk,
+} from './jsonapi.js';
 
 /**
  * Request options for the HTTP client
  */
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   /** Query parameters to append to the URL */
   params?: Record<string, unknown>;
-  /** Request body (for POST/PATCH) */
+  /** Request body (for POST/PATCH, or a bulk DELETE) */
   body?: Record<string, unknown>;
-  /** Additional headers */
-  headers?: Record<string, string>;
-  /** Request timeout in milliseconds */
-  timeout?: number;
 }
 
 /**
@@ -36,10 +53,37 @@ export interface RequestOptions {
 export class HttpClient {
   private readonly config: ResolvedConfig;
   private readonly rateLimiter: RateLimiter;
+  private readonly scheduler: RequestScheduler;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly cache: ResponseCache;
+  private readonly middleware: Middleware[];
+  private observer?: (details: ResponseDetails) => void;
 
   constructor(config: ResolvedConfig) {
     this.config = config;
     this.rateLimiter = new RateLimiter(config.rateLimiter);
+    this.scheduler = new RequestScheduler(config.scheduler);
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+    this.cache = new ResponseCache(config.cache, getCacheScope(config.apiKey, config.baseUrl));
+    this.middleware = [...config.middleware];
+  }
+
+  /**
+   * Register a middleware at the end of the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Create a view of this client that reports every successful response
+   * The view shares all state with this client, but never serves GETs from the cache.
+   */
+  observe(observer: (details: ResponseDetails) => void): HttpClient {
+    const observed = Object.create(this) as HttpClient;
+    observed.observer = observer;
+    return observed;
   }
 
   /**
@@ -49,6 +93,27 @@ export class HttpClient {
     return this.rateLimiter;
   }
 
+  /**
+   * Get the request scheduler instance (for monitoring)
+   */
+  getScheduler(): RequestScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Get the circuit breaker instance (for monitoring)
+   */
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Get the response cache instance
+   */
+  getCache(): ResponseCache {
+    return this.cache;
+  }
+
   /**
    * Build the full URL for a request
    */
@@ -70,127 +135,378 @@ export class HttpClient {
 
   /**
    * Make an HTTP request with rate limiting and error handling
+   * The request waits for a free scheduler slot in its priority lane.
    */
   async request<T>(
     method: HttpMethod,
     path: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    // Wait for rate limiter if needed
-    await this.rateLimiter.waitIfNeeded();
+    try {
+      return await this.scheduler.schedule(
+        () => this.send<T>(method, path, options),
+        options.priority,
+        options.signal
+      );
+    } catch (error) {
+      throw this.normalizeAbort(error, options.signal, this.buildUrl(path, options.params), method);
+    }
+  }
 
-    const url = this.buildUrl(path, options.params);
+  /**
+   * Perform a single request attempt
+   */
+  private async send<T>(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions
+  ): Promise<T> {
     const timeout = options.timeout ?? this.config.timeout;
+    const { signal } = options;
 
-    const headers: Record<string, string> = {
-      ...getHeaders(this.config.apiKey),
-      ...options.headers,
-    };
-
-    const requestInit: RequestInit = {
+    const context: MiddlewareContext = {
       method,
-      headers,
+      path,
+      url: this.buildUrl(path, options.params),
+      params: options.params,
+      // GET requests never carry a body
+      body: method === 'GET' ? undefined : options.body,
+      headers: {
+        ...getHeaders(this.config.apiKey),
+        ...options.headers,
+      },
+      state: {},
     };
 
-    // Add body for POST/PATCH
-    if (options.body && (method === 'POST' || method === 'PATCH')) {
-      requestInit.body = JSON.stringify(options.body);
-    }
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    // Whether the circuit breaker still awaits the outcome of this attempt
+    let circuitPending = false;
 
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    requestInit.signal = controller.signal;
+    try {
+      let response = await this.runRequestMiddleware(context);
 
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, timeout);
+      if (!response) {
+        // Middleware may have rewritten the path or params
+        context.url = this.buildUrl(context.path, context.params);
 
-    try {
-      // Record the request for rate limiting
-      this.rateLimiter.recordRequest();
+        const requestInit: FetchRequestInit = {
+          method,
+          headers: context.headers,
+        };
 
-      const response = await fetch(url, requestInit);
-      clearTimeout(timeoutId);
+        if (context.body) {
+          requestInit.body = JSON.stringify(context.body);
+        }
+
+        // Route through the configured connection pool / proxy
+        if (this.config.dispatcher) {
+          requestInit.dispatcher = this.config.dispatcher;
+        }
+
+        // Create abort controller for timeout, cancelled early by the caller's signal
+        const controller = new AbortController();
+        requestInit.signal = signal
+          ? AbortSignal.any([controller.signal, signal])
+          : controller.signal;
+
+        // Fail fast while IT Glue appears to be down
+        this.circuitBreaker.acquire(context.url, method);
+        circuitPending = true;
+
+        // Reserve a rate limit slot before the timeout starts
+        await this.rateLimiter.acquire(signal);
+
+        timeoutId = setTimeout(() => {
+          controller.abort();
+        }, timeout);
+
+        response = await this.config.fetch(context.url, requestInit);
+        clearTimeout(timeoutId);
+
+        // Let the server correct our view of the rate limit window
+        this.rateLimiter.syncFromHeaders(response.headers);
+      }
+
+      response = await this.runResponseMiddleware(context, response);
 
       // Handle errors
       if (!response.ok) {
         const body = await this.safeParseJson(response);
-        throw createErrorFromResponse(response.status, body, url, method);
+        throw createErrorFromResponse(
+          response.status,
+          body,
+          context.url,
+          method,
+          response.headers
+        );
+      }
+
+      if (circuitPending) {
+        circuitPending = false;
+        this.circuitBreaker.record();
       }
 
       // Handle 204 No Content (delete operations)
       if (response.status === 204) {
+        this.observer?.(this.describeResponse(response, undefined));
         return undefined as T;
       }
 
       // Parse successful response
       const data = await response.json();
+      this.observer?.(this.describeResponse(response, data as JsonApiResponse));
       return data as T;
     } catch (error) {
       clearTimeout(timeoutId);
 
-      // Re-throw our custom errors
-      if (
-        error instanceof ITGlueNetworkError ||
-        error instanceof ITGlueTimeoutError ||
-        error instanceof ITGlueRateLimitError ||
-        error instanceof ITGlueServerError
-      ) {
-        throw error;
+      const normalized = this.normalizeAbort(
+        this.normalizeError(error, context.url, method, timeout),
+        signal,
+        context.url,
+        method
+      );
+      if (circuitPending) {
+        this.circuitBreaker.record(normalized);
       }
+      await this.runErrorMiddleware(context, normalized);
+      throw normalized;
+    }
+  }
 
-      // Handle abort (timeout)
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new ITGlueTimeoutError(
-          `Request timed out after ${timeout}ms`,
-          timeout,
-          url,
-          method
-        );
+  /**
+   * Collect the response details reported to an observer
+   */
+  private describeResponse(
+    response: Response,
+    body: JsonApiResponse | undefined
+  ): ResponseDetails {
+    const details: ResponseDetails = {
+      status: response.status,
+      headers: response.headers,
+    };
+
+    const requestId = response.headers.get('x-request-id');
+    if (requestId) {
+      details.requestId = requestId;
+    }
+    if (body?.meta) {
+      details.meta =
+        this.config.keyTransform.mode === 'raw'
+          ? { ...body.meta }
+          : convertKeysToCamel<Record<string, unknown>>(body.meta);
+    }
+    if (body?.links) {
+      details.links = { ...body.links };
+    }
+    return details;
+  }
+
+  /**
+   * Map low-level fetch failures to IT Glue error classes
+   */
+  private normalizeError(
+    error: unknown,
+    url: string,
+    method: HttpMethod,
+    timeout: number
+  ): Error {
+    // Keep our custom errors as they are
+    if (error instanceof ITGlueError) {
+      return error;
+    }
+
+    // Handle abort (timeout)
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return new ITGlueTimeoutError(
+        `Request timed out after ${timeout}ms`,
+        timeout,
+        url,
+        method
+      );
+    }
+
+    // Handle network errors
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      return new ITGlueNetworkError(
+        'Network error occurred',
+        error,
+        url,
+        method
+      );
+    }
+
+    // Pass other errors through unchanged
+    return error as Error;
+  }
+
+  /**
+   * Report any failure caused by the caller's signal as an ITGlueAbortError
+   */
+  private normalizeAbort(
+    error: unknown,
+    signal: AbortSignal | undefined,
+    url: string,
+    method: HttpMethod
+  ): Error {
+    // API errors that arrived before the abort are kept as they are
+    const causedByAbort =
+      !(error instanceof ITGlueError) || error instanceof ITGlueTimeoutError;
+    if (!signal?.aborted || !causedByAbort) {
+      return error as Error;
+    }
+    return new ITGlueAbortError('Request was aborted', signal.reason, url, method);
+  }
+
+  /**
+   * Run onRequest hooks in registration order
+   * Returns the first short-circuit response, if any
+   */
+  private async runRequestMiddleware(
+    context: MiddlewareContext
+  ): Promise<Response | undefined> {
+    for (const middleware of this.middleware) {
+      const response = await middleware.onRequest?.(context);
+      if (response) {
+        return response;
       }
+    }
+    return undefined;
+  }
 
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new ITGlueNetworkError(
-          'Network error occurred',
-          error,
-          url,
-          method
-        );
+  /**
+   * Run onResponse hooks in reverse registration order
+   */
+  private async runResponseMiddleware(
+    context: MiddlewareContext,
+    response: Response
+  ): Promise<Response> {
+    let current = response;
+    for (const middleware of [...this.middleware].reverse()) {
+      const replacement = await middleware.onResponse?.(context, current);
+      if (replacement) {
+        current = replacement;
       }
+    }
+    return current;
+  }
 
-      // Re-throw other errors (including our API errors)
-      throw error;
+  /**
+   * Run onError hooks in reverse registration order
+   */
+  private async runErrorMiddleware(context: MiddlewareContext, error: Error): Promise<void> {
+    for (const middleware of [...this.middleware].reverse()) {
+      await middleware.onError?.(context, error);
     }
   }
 
   /**
-   * Make a request with automatic retry for rate limits and server errors
+   * Make a request, retrying failures allowed by the retry policy
+   * Mutations invalidate cached responses before they are sent and again once they
+   * settle, dropping anything cached while the mutation was in flight.
    */
   async requestWithRetry<T>(
     method: HttpMethod,
     path: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    return retryWithBackoff(
-      () => this.request<T>(method, path, options),
-      {
-        maxRetries: this.config.rateLimiter.maxRetries,
-        baseDelayMs: this.config.rateLimiter.retryAfterMs,
-        maxDelayMs: 60000,
-        // Only retry on rate limits and server errors
-        shouldRetry: (error: Error) => {
-          return error instanceof ITGlueRateLimitError || error instanceof ITGlueServerError;
-        },
+    // A mutation makes cached responses for the same collection stale
+    if (method !== 'GET') {
+      await this.cache.invalidate(path);
+      try {
+        return await this.retryRequest<T>(method, path, options);
+      } finally {
+        await this.cache.invalidate(path);
+      }
+    }
+    return this.retryRequest<T>(method, path, options);
+  }
+
+  /**
+   * Run a request through the retry policy
+   */
+  private async retryRequest<T>(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions
+  ): Promise<T> {
+    const { signal } = options;
+    const policy = this.config.retry;
+    const overrides = options.retry ?? {};
+    const retryOn = overrides.retryOn ?? policy.methods[method];
+    const deadlineMs = overrides.deadlineMs ?? policy.deadlineMs;
+
+    try {
+      return await retryWithBackoff(
+        (attemptSignal) => this.request<T>(method, path, { ...options, signal: attemptSignal }),
+        {
+          maxRetries: overrides.maxRetries ?? policy.maxRetries,
+          baseDelayMs: overrides.baseDelayMs ?? policy.baseDelayMs,
+          maxDelayMs: overrides.maxDelayMs ?? policy.maxDelayMs,
+          deadlineMs,
+          jitter: 'full',
+          // Only retry failure kinds allowed for this method
+          shouldRetry: (error: Error) => {
+            const kind = getRetryableErrorKind(error);
+            return kind !== undefined && retryOn.includes(kind);
+          },
+          // Wait as long as the server asked us to
+          getRetryDelay: (error: Error) => {
+            return error instanceof ITGlueRateLimitError ? error.retryAfter : undefined;
+          },
+          onRetry: (error: Error, attempt: number, delayMs: number) => {
+            const info: RetryAttempt = {
+              method,
+              path,
+              attempt,
+              error,
+              // shouldRetry only lets classified errors through
+              kind: getRetryableErrorKind(error) as RetryableErrorKind,
+              delayMs,
+            };
+            policy.onRetry?.(info);
+            overrides.onRetry?.(info);
+          },
+          signal,
+        }
+      );
+    } catch (error) {
+      const url = this.buildUrl(path, options.params);
+      // An attempt cut off by the retry deadline, not the caller, reports a timeout
+      if (error instanceof ITGlueAbortError && !signal?.aborted && deadlineMs !== undefined) {
+        throw new ITGlueTimeoutError(
+          `Request did not complete within the ${deadlineMs}ms retry deadline`,
+          deadlineMs,
+          url,
+          method
+        );
       }
-    );
+      // Aborting during a backoff delay surfaces the raw abort reason
+      throw this.normalizeAbort(error, signal, url, method);
+    }
   }
 
   /**
    * GET request
+   * Served from the response cache when the path's collection has a cache policy
    */
-  async get<T>(path: string, params?: Record<string, unknown>): Promise<T> {
-    return this.requestWithRetry<T>('GET', path, { params });
+  async get<T>(
+    path: string,
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
+  ): Promise<T> {
+    if (options.cache === false || this.observer || !this.cache.getPolicy(path)) {
+      return this.requestWithRetry<T>('GET', path, { ...options, params });
+    }
+
+    const url = this.buildUrl(path, params);
+    const cached = await this.cache.read(path, url);
+    if (cached !== undefined) {
+      return cached as T;
+    }
+
+    const response = await this.requestWithRetry<T>('GET', path, { ...options, params });
+    await this.cache.write(path, url, response);
+    return response;
   }
 
   /**
@@ -200,10 +516,11 @@ export class HttpClient {
     path: string,
     type: string,
     data: Record<string, unknown>,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<T> {
-    const body = serialize(type, data);
-    return this.requestWithRetry<T>('POST', path, { body, params });
+    const body = serialize(type, data, undefined, this.config.keyTransform);
+    return this.requestWithRetry<T>('POST', path, { ...options, body, params });
   }
 
   /**
@@ -214,17 +531,41 @@ export class HttpClient {
     type: string,
     id: string,
     data: Record<string, unknown>,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<T> {
-    const body = serialize(type, data, id);
-    return this.requestWithRetry<T>('PATCH', path, { body, params });
+    const body = serialize(type, data, id, this.config.keyTransform);
+    return this.requestWithRetry<T>('PATCH', path, { ...options, body, params });
+  }
+
+  /**
+   * Bulk request with a JSON:API array payload
+   * Resolves to the deserialized resources returned, if any.
+   */
+  async bulk<T>(
+    method: 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    type: string,
+    items: Record<string, unknown>[],
+    options: CallOptions = {}
+  ): Promise<T[]> {
+    const body = serializeBulk(type, items, this.config.keyTransform);
+    const response = await this.requestWithRetry<JsonApiResponse | undefined>(method, path, {
+      ...options,
+      body,
+    });
+    if (!response?.data) {
+      return [];
+    }
+    const { data } = deserialize<T>(response, this.config.keyTransform, this.config.coerce);
+    return Array.isArray(data) ? data : [data];
   }
 
   /**
    * DELETE request
    */
-  async delete<T = void>(path: string): Promise<T> {
-    return this.requestWithRetry<T>('DELETE', path);
+  async delete<T = void>(path: string, options: CallOptions = {}): Promise<T> {
+    return this.requestWithRetry<T>('DELETE', path, { ...options });
   }
 
   /**
@@ -243,10 +584,11 @@ export class HttpClient {
    */
   async getAndDeserialize<T>(
     path: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<{ data: T | T[]; meta?: import('./types/index.js').PaginationMeta; included?: T[] }> {
-    const response = await this.get<JsonApiResponse>(path, params);
-    return deserialize<T>(response);
+    const response = await this.get<JsonApiResponse>(path, params, options);
+    return deserialize<T>(response, this.config.keyTransform, this.config.coerce);
   }
 
   /**
@@ -254,9 +596,10 @@ export class HttpClient {
    */
   async list<T>(
     path: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<{ data: T[]; meta: import('./types/index.js').PaginationMeta }> {
-    const response = await this.getAndDeserialize<T>(path, params);
+    const response = await this.getAndDeserialize<T>(path, params, options);
     return {
       data: Array.isArray(response.data) ? response.data : [response.data],
       meta: response.meta || {
@@ -272,8 +615,12 @@ export class HttpClient {
   /**
    * GET request for a single resource
    */
-  async getOne<T>(path: string, params?: Record<string, unknown>): Promise<T> {
-    const response = await this.getAndDeserialize<T>(path, params);
+  async getOne<T>(
+    path: string,
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
+  ): Promise<T> {
+    const response = await this.getAndDeserialize<T>(path, params, options);
     if (Array.isArray(response.data)) {
       return response.data[0];
     }
@@ -287,10 +634,11 @@ export class HttpClient {
     path: string,
     type: string,
     data: Record<string, unknown>,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<T> {
-    const response = await this.post<JsonApiResponse>(path, type, data, params);
-    const deserialized = deserialize<T>(response);
+    const response = await this.post<JsonApiResponse>(path, type, data, params, options);
+    const deserialized = deserialize<T>(response, this.config.keyTransform, this.config.coerce);
     if (Array.isArray(deserialized.data)) {
       return deserialized.data[0];
     }
@@ -305,10 +653,11 @@ export class HttpClient {
     type: string,
     id: string,
     data: Record<string, unknown>,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: CallOptions = {}
   ): Promise<T> {
-    const response = await this.patch<JsonApiResponse>(path, type, id, data, params);
-    const deserialized = deserialize<T>(response);
+    const response = await this.patch<JsonApiResponse>(path, type, id, data, params, options);
+    const deserialized = deserialize<T>(response, this.config.keyTransform, this.config.coerce);
     if (Array.isArray(deserialized.data)) {
       return deserialized.data[0];
     }
@@ -20,6 +20,7 @@ export type { RequestOptions } from './http.js';
 export {
   deserialize,
   serialize,
+  serializeBulk,
   kebabToCamel,
   camelToKebab,
   convertKeysToCamel,
@@ -29,8 +30,20 @@ export {
 } from './jsonapi.js';
 
 // Rate limiting
-export { RateLimiter, retryWithBackoff } from './rate-limiter.js';
-export type { RetryConfig } from './rate-limiter.js';
+export { RateLimiter, retryWithBackoff, parseRateLimitHeaders } from './rate-limiter.js';
+export type { RetryConfig, ServerRateLimitState } from './rate-limiter.js';
+export { MemoryRateLimitStore, FileRateLimitStore } from './rate-limit-store.js';
+export type { FileRateLimitStoreOptions } from './rate-limit-store.js';
+
+// Request scheduling
+export { RequestScheduler, REQUEST_PRIORITIES } from './scheduler.js';
+
+// Circuit breaker
+export { CircuitBreaker } from './circuit-breaker.js';
+
+// Response cache
+export { ResponseCache, getCacheScope, getCollection } from './cache.js';
+export { MemoryCacheStore, FileCacheStore } from './cache-store.js';
 
 // Pagination
 export {
@@ -38,10 +51,26 @@ export {
   createPageIterator,
   collectAll,
   take,
+  hashParams,
+  toPaginationOptions,
   DEFAULT_PAGE_SIZE,
   MAX_PAGE_SIZE,
 } from './pagination.js';
-export type { PageFetcher, PaginationOptions } from './pagination.js';
+export type { ListAllOptions, PageFetcher, PaginationOptions } from './pagination.js';
+
+// Async iterable helpers
+export { withHelpers } from './async-iterable.js';
+
+// Query builder
+export { QueryBuilder } from './query.js';
+export type {
+  QueryableResource,
+  QueryOperator,
+  QueryOperand,
+  QueryFilter,
+  QuerySortKey,
+  QueryInclude,
+} from './query.js';
 
 // Error classes
 export {
@@ -53,13 +82,18 @@ export {
   ITGlueServerError,
   ITGlueNetworkError,
   ITGlueTimeoutError,
+  ITGlueAbortError,
+  ITGlueCircuitOpenError,
+  ITGlueCheckpointError,
   createErrorFromResponse,
+  parseRetryAfter,
+  getRetryableErrorKind,
 } from './errors.js';
 
 // Resources
 export {
   BaseResource,
-  NestedResource,
+  BulkResource,
   OrganizationsResource,
   OrganizationTypesResource,
   OrganizationStatusesResource,
@@ -3,11 +3,22 @@
  * Handles conversion between IT Glue's JSON:API format and clean TypeScript objects
  */
 
+import {
+  DATE_ONLY_ATTRIBUTES,
+  DEFAULT_COERCION_CONFIG,
+  DEFAULT_KEY_TRANSFORM_CONFIG,
+  TIMESTAMP_ATTRIBUTES,
+} from './types/index.js';
 import type {
+  CoercionConfig,
+  JsonApiRequestResource,
   JsonApiResource,
   JsonApiResponse,
+  KeyTransformConfig,
   PaginationMeta,
+  RelationshipItem,
   RelationshipLink,
+  RelationshipsData,
 } from './types/index.js';
 
 /**
@@ -72,11 +83,74 @@ export function convertKeysToKebab<T>(obj: unknown): T {
   return obj as T;
 }
 
+/**
+ * Convert an attribute or relationship name from its API form
+ */
+function fromApiKey(key: string, keyTransform: KeyTransformConfig): string {
+  return keyTransform.mode === 'raw' ? key : kebabToCamel(key);
+}
+
+/**
+ * Convert an attribute or relationship name to its API form
+ */
+function toApiKey(key: string, keyTransform: KeyTransformConfig): string {
+  return keyTransform.mode === 'raw' ? key : camelToKebab(key);
+}
+
+const TIMESTAMP_KEYS = new Set<string>(TIMESTAMP_ATTRIBUTES);
+const DATE_ONLY_KEYS = new Set<string>(DATE_ONLY_ATTRIBUTES);
+
+/**
+ * Check whether an attribute holds a timestamp or date, in either key form
+ */
+function isDateAttribute(key: string): boolean {
+  const camelKey = kebabToCamel(key);
+  return TIMESTAMP_KEYS.has(camelKey) || DATE_ONLY_KEYS.has(camelKey);
+}
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Convert a date attribute to a Date, keeping values that do not parse
+ * Date-only values become local midnight, so the local calendar date matches the API's.
+ */
+function coerceDate(key: string, value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const match = DATE_ONLY_KEYS.has(kebabToCamel(key)) ? CALENDAR_DATE_PATTERN.exec(value) : null;
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date;
+}
+
+/**
+ * Format a Date for an attribute: YYYY-MM-DD for date-only fields, ISO 8601 otherwise
+ * Date-only fields use the local calendar date, the inverse of `coerceDate`.
+ */
+function formatDateAttribute(key: string, value: Date): string {
+  if (!DATE_ONLY_KEYS.has(kebabToCamel(key))) {
+    return value.toISOString();
+  }
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Relationship link maps produced by deserialization
+ * A fetched resource's links are never sent back; spreading the resource keeps
+ * the same map, so it is still recognised when passed to `update()`.
+ */
+const deserializedRelationships = new WeakSet<object>();
+
 /**
  * Extract relationship links from a JSON:API relationships object
  */
 function deserializeRelationships(
-  relationships: Record<string, { data: RelationshipLink | RelationshipLink[] | null }> | undefined
+  relationships: Record<string, { data: RelationshipLink | RelationshipLink[] | null }> | undefined,
+  keyTransform: KeyTransformConfig
 ): Record<string, RelationshipLink[]> | undefined {
   if (!relationships) {
     return undefined;
@@ -85,7 +159,7 @@ function deserializeRelationships(
   const result: Record<string, RelationshipLink[]> = {};
 
   for (const [key, value] of Object.entries(relationships)) {
-    const camelKey = kebabToCamel(key);
+    const camelKey = fromApiKey(key, keyTransform);
     if (value.data === null) {
       result[camelKey] = [];
     } else if (Array.isArray(value.data)) {
@@ -95,29 +169,43 @@ function deserializeRelationships(
     }
   }
 
-  return Object.keys(result).length > 0 ? result : undefined;
+  if (Object.keys(result).length === 0) {
+    return undefined;
+  }
+  deserializedRelationships.add(result);
+  return result;
 }
 
 /**
  * Deserialize a single JSON:API resource into a flat object
  */
-export function deserializeResource<T>(resource: JsonApiResource): T {
+export function deserializeResource<T>(
+  resource: JsonApiResource,
+  keyTransform: KeyTransformConfig = DEFAULT_KEY_TRANSFORM_CONFIG,
+  coercion: CoercionConfig = DEFAULT_COERCION_CONFIG
+): T {
   // Start with id and type
   const result: Record<string, unknown> = {
-    id: resource.id,
+    id: coercion.ids && /^\d+$/.test(resource.id) ? Number(resource.id) : resource.id,
     type: resource.type,
   };
 
   // Flatten attributes into the top level, converting keys to camelCase
+  // unless the policy keeps them as sent
   if (resource.attributes) {
     for (const [key, value] of Object.entries(resource.attributes)) {
-      const camelKey = kebabToCamel(key);
-      result[camelKey] = convertKeysToCamel(value);
+      const camelKey = fromApiKey(key, keyTransform);
+      const verbatim = keyTransform.mode === 'raw' || keyTransform.preserve.includes(camelKey);
+      if (coercion.dates && isDateAttribute(key)) {
+        result[camelKey] = coerceDate(key, value);
+      } else {
+        result[camelKey] = verbatim ? value : convertKeysToCamel(value);
+      }
     }
   }
 
   // Process relationships
-  const relationships = deserializeRelationships(resource.relationships);
+  const relationships = deserializeRelationships(resource.relationships, keyTransform);
   if (relationships) {
     result.relationships = relationships;
   }
@@ -144,32 +232,115 @@ export function deserializeMeta(
   };
 }
 
+/**
+ * Attach a hydrated relationship as a non-enumerable property
+ */
+function attachRelated(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: false,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Check whether a value is a resource, or a list of resources, linked in by `hydrate`
+ */
+function isRelatedResource(value: unknown): boolean {
+  const items = Array.isArray(value) ? value : [value];
+  return (
+    items.length > 0 &&
+    items.every(
+      (item) => typeof item === 'object' && item !== null && 'id' in item && 'type' in item
+    )
+  );
+}
+
+/**
+ * Link each relationship to its matching resource from `included`
+ *
+ * Resolved resources are attached as top-level properties named after the
+ * relationship (a single object for to-one, an array for to-many). Every
+ * `type:id` pair maps to exactly one object, so cycles become shared
+ * references rather than copies. The properties are non-enumerable, so
+ * `JSON.stringify`, spreads and request serialization skip them. Links with
+ * no matching resource are left unresolved, and attributes are never
+ * overwritten.
+ */
+export function hydrate(
+  resources: JsonApiResource[],
+  objects: Record<string, unknown>[],
+  keyTransform: KeyTransformConfig = DEFAULT_KEY_TRANSFORM_CONFIG
+): void {
+  const identityMap = new Map<string, Record<string, unknown>>();
+  resources.forEach((resource, index) => {
+    const key = `${resource.type}:${resource.id}`;
+    if (!identityMap.has(key)) {
+      identityMap.set(key, objects[index]);
+    }
+  });
+
+  const resolve = (link: RelationshipLink) => identityMap.get(`${link.type}:${link.id}`);
+
+  resources.forEach((resource, index) => {
+    const target = objects[index];
+    for (const [key, value] of Object.entries(resource.relationships ?? {})) {
+      const camelKey = fromApiKey(key, keyTransform);
+      if (camelKey === 'relationships' || Object.hasOwn(target, camelKey) || !value.data) {
+        continue;
+      }
+
+      if (Array.isArray(value.data)) {
+        const related = value.data.map(resolve).filter((item) => item !== undefined);
+        if (related.length > 0) {
+          attachRelated(target, camelKey, related);
+        }
+      } else {
+        const related = resolve(value.data);
+        if (related) {
+          attachRelated(target, camelKey, related);
+        }
+      }
+    }
+  });
+}
+
 /**
  * Deserialize a JSON:API response into clean TypeScript objects
- * Handles both single resource and array responses
+ * Handles both single resource and array responses. When the response
+ * carries `included` resources, relationships are hydrated in place.
  */
-export function deserialize<T>(response: JsonApiResponse): {
+export function deserialize<T>(
+  response: JsonApiResponse,
+  keyTransform: KeyTransformConfig = DEFAULT_KEY_TRANSFORM_CONFIG,
+  coercion: CoercionConfig = DEFAULT_COERCION_CONFIG
+): {
   data: T | T[];
   meta?: PaginationMeta;
   included?: T[];
 } {
   const meta = deserializeMeta(response.meta);
+  const primary = Array.isArray(response.data) ? response.data : [response.data];
+  const data = primary.map((resource) =>
+    deserializeResource<T>(resource, keyTransform, coercion)
+  );
+  const included = response.included?.map((resource) =>
+    deserializeResource<T>(resource, keyTransform, coercion)
+  );
 
-  // Handle array response
-  if (Array.isArray(response.data)) {
-    const data = response.data.map((resource) => deserializeResource<T>(resource));
-    const included = response.included?.map((resource) =>
-      deserializeResource<T>(resource)
+  if (response.included && included) {
+    hydrate(
+      [...primary, ...response.included],
+      [...data, ...included] as Record<string, unknown>[],
+      keyTransform
     );
-
-    return { data, meta, included };
   }
 
   // Handle single resource response
-  const data = deserializeResource<T>(response.data);
-  const included = response.included?.map((resource) =>
-    deserializeResource<T>(resource)
-  );
+  if (!Array.isArray(response.data)) {
+    return { data: data[0], meta, included };
+  }
 
   return { data, meta, included };
 }
@@ -178,45 +349,147 @@ export function deserialize<T>(response: JsonApiResponse): {
  * Serialize attributes for a JSON:API request body
  */
 function serializeAttributes(
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  keyTransform: KeyTransformConfig
 ): Record<string, unknown> {
   const attributes: Record<string, unknown> = {};
+  const links = data.relationships as Record<string, unknown> | undefined;
 
   for (const [key, value] of Object.entries(data)) {
-    // Skip id and type - these are handled separately
-    if (key === 'id' || key === 'type') {
+    // Skip id, type and relationships - these are handled separately
+    if (key === 'id' || key === 'type' || key === 'relationships') {
       continue;
     }
 
-    const kebabKey = camelToKebab(key);
-    attributes[kebabKey] = convertKeysToKebab(value);
+    // Skip relationships hydrated from `included`, even when copied onto a plain object
+    if (links && Object.hasOwn(links, key) && isRelatedResource(value)) {
+      continue;
+    }
+
+    const apiKey = toApiKey(key, keyTransform);
+    if (value instanceof Date) {
+      attributes[apiKey] = formatDateAttribute(key, value);
+      continue;
+    }
+
+    const verbatim = keyTransform.mode === 'raw' || keyTransform.preserve.includes(key);
+    attributes[apiKey] = verbatim ? value : convertKeysToKebab(value);
   }
 
   return attributes;
 }
 
+/**
+ * Serialize a single relationship entry: a link to an existing resource,
+ * or a side-posted resource with its own attributes and relationships
+ */
+function serializeRelationshipItem(
+  item: RelationshipItem,
+  keyTransform: KeyTransformConfig
+): JsonApiRequestResource {
+  if ('attributes' in item) {
+    const attributes = item.attributes as Record<string, unknown>;
+    const resource: JsonApiRequestResource = {
+      type: item.type,
+      attributes: serializeAttributes(attributes, keyTransform),
+    };
+    const relationships = serializeRelationships(
+      attributes.relationships as RelationshipsData | undefined,
+      keyTransform
+    );
+    if (relationships) {
+      resource.relationships = relationships;
+    }
+    return resource;
+  }
+
+  return { type: item.type, id: String(item.id) };
+}
+
+/**
+ * Serialize a relationships section into JSON:API relationship objects
+ */
+function serializeRelationships(
+  relationships: RelationshipsData | undefined,
+  keyTransform: KeyTransformConfig
+): JsonApiRequestResource['relationships'] {
+  if (!relationships || deserializedRelationships.has(relationships)) {
+    return undefined;
+  }
+
+  const result: NonNullable<JsonApiRequestResource['relationships']> = {};
+
+  for (const [key, value] of Object.entries(relationships)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const kebabKey = toApiKey(key, keyTransform);
+    if (value === null) {
+      result[kebabKey] = { data: null };
+    } else if (Array.isArray(value)) {
+      result[kebabKey] = {
+        data: value.map((item) => serializeRelationshipItem(item, keyTransform)),
+      };
+    } else {
+      result[kebabKey] = { data: serializeRelationshipItem(value, keyTransform) };
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 /**
  * Serialize data for a JSON:API POST/PATCH request
+ * A `relationships` key in the data is emitted as JSON:API relationship
+ * objects; entries with `attributes` are side-posted as new resources.
+ * `Date` attributes are sent as YYYY-MM-DD for date-only fields and as
+ * ISO 8601 timestamps otherwise.
  */
 export function serialize(
   type: string,
   data: Record<string, unknown>,
-  id?: string
-): { data: JsonApiResource } {
-  const resource: JsonApiResource = {
-    id: id || '',
-    type,
-    attributes: serializeAttributes(data),
-  };
+  id?: string,
+  keyTransform: KeyTransformConfig = DEFAULT_KEY_TRANSFORM_CONFIG
+): { data: JsonApiRequestResource } {
+  const attributes = serializeAttributes(data, keyTransform);
 
   // Only include id if provided (for updates)
-  if (!id) {
-    delete (resource as unknown as Record<string, unknown>).id;
+  const resource: JsonApiRequestResource = id
+    ? { id, type, attributes }
+    : { type, attributes };
+
+  const relationships = serializeRelationships(
+    data.relationships as RelationshipsData | undefined,
+    keyTransform
+  );
+  if (relationships) {
+    resource.relationships = relationships;
   }
 
   return { data: resource };
 }
 
+/**
+ * Serialize items for a bulk JSON:API request with an array payload
+ * IT Glue identifies existing resources by an `id` inside the attributes.
+ */
+export function serializeBulk(
+  type: string,
+  items: Record<string, unknown>[],
+  keyTransform: KeyTransformConfig = DEFAULT_KEY_TRANSFORM_CONFIG
+): { data: JsonApiRequestResource[] } {
+  return {
+    data: items.map((item) => {
+      const { data } = serialize(type, item, undefined, keyTransform);
+      if (item.id !== undefined) {
+        data.attributes = { id: item.id, ...data.attributes };
+      }
+      return data;
+    }),
+  };
+}
+
 /**
  * Build query parameters from filter/sort/page options
  */
@@ -250,6 +523,17 @@ export function buildQueryParams(params: Record<string, unknown>): URLSearchPara
       continue;
     }
 
+    // Sparse fieldsets: keys are JSON:API types, values are camelCase field names
+    if (key === 'fields' && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [type, names] of Object.entries(value as Record<string, unknown>)) {
+        if (Array.isArray(names)) {
+          const kebabNames = names.map((name) => camelToKebab(String(name)));
+          searchParams.set(`fields[${type}]`, kebabNames.join(','));
+        }
+      }
+      continue;
+    }
+
     const kebabKey = camelToKebab(key);
     addParam(kebabKey, value);
   }
@@ -258,7 +542,30 @@ export function buildQueryParams(params: Record<string, unknown>): URLSearchPara
 }
 
 /**
- * Parse filter operators (gt, gte, lt, lte) into query param format
+ * Format a filter value for the query string
+ * Dates become ISO 8601 strings and lists are comma-separated.
+ */
+function formatFilterValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => formatFilterValue(item)).join(',');
+  }
+  return value;
+}
+
+const FILTER_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn'];
+
+/**
+ * Parse filter values and operator objects into query param format
+ *
+ * - `gt`, `gte`, `lt`, `lte` become `field[op]`
+ * - `between: [start, end]` becomes the comma range `field=start,end`
+ * - `in` and plain arrays become `field=a,b`
+ * - `notIn` becomes `filter[exclude][field]=a,b`, IT Glue's exclusion format
+ *
+ * `between` and `in` both set the field itself, so combining them throws.
  */
 export function buildFilterParams(
   filter: Record<string, unknown> | undefined
@@ -268,35 +575,46 @@ export function buildFilterParams(
   }
 
   const result: Record<string, unknown> = {};
+  const exclude: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(filter)) {
     if (value === undefined || value === null) {
       continue;
     }
 
-    // Handle operator objects (gt, gte, lt, lte)
+    // Handle operator objects
     if (
       typeof value === 'object' &&
       !Array.isArray(value) &&
-      ('gt' in value || 'gte' in value || 'lt' in value || 'lte' in value)
+      !(value instanceof Date) &&
+      FILTER_OPERATORS.some((operator) => operator in value)
     ) {
       const operators = value as Record<string, unknown>;
-      if (operators.gt !== undefined) {
-        result[`${key}[gt]`] = operators.gt;
+      for (const operator of ['gt', 'gte', 'lt', 'lte']) {
+        if (operators[operator] !== undefined) {
+          result[`${key}[${operator}]`] = formatFilterValue(operators[operator]);
+        }
       }
-      if (operators.gte !== undefined) {
-        result[`${key}[gte]`] = operators.gte;
+      if (operators.between !== undefined && operators.in !== undefined) {
+        throw new Error(`Filter "${key}" cannot combine "between" and "in"`);
       }
-      if (operators.lt !== undefined) {
-        result[`${key}[lt]`] = operators.lt;
+      if (operators.between !== undefined) {
+        result[key] = formatFilterValue(operators.between);
       }
-      if (operators.lte !== undefined) {
-        result[`${key}[lte]`] = operators.lte;
+      if (operators.in !== undefined) {
+        result[key] = formatFilterValue(operators.in);
+      }
+      if (operators.notIn !== undefined) {
+        exclude[key] = formatFilterValue(operators.notIn);
       }
     } else {
-      result[key] = value;
+      result[key] = formatFilterValue(value);
     }
   }
 
+  if (Object.keys(exclude).length > 0) {
+    result.exclude = exclude;
+  }
+
   return result;
 }
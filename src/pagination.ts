@@ -3,12 +3,18 @@
  * Provides async iterators for automatic pagination
  */
 
+import { createHash } from 'node:crypto';
 import type {
   AsyncIterableWithHelpers,
+  CallOptions,
+  PaginatedIterable,
   PaginatedResponse,
+  PaginationCheckpoint,
   PaginationMeta,
   PaginationParams,
 } from './types/index.js';
+import { withHelpers } from './async-iterable.js';
+import { ITGlueCheckpointError } from './errors.js';
 
 /**
  * Function type for fetching a single page of results
@@ -35,19 +41,170 @@ export interface PaginationOptions {
   pageSize?: number;
   /** Maximum number of items to return (undefined for all) */
   maxItems?: number;
+  /** Ends iteration without an error once aborted */
+  signal?: AbortSignal;
+  /** Checkpoint to continue from; takes precedence over startPage and pageSize */
+  resumeFrom?: PaginationCheckpoint;
+  /** Fingerprint of the params being iterated, recorded in checkpoints (see hashParams) */
+  filterHash?: string;
+  /**
+   * Pages requested in parallel once the first response reports the page count
+   * (default: 1). At most this many pages are in flight or buffered at a time.
+   */
+  concurrency?: number;
+  /** Called with the pagination meta of each page as iteration reaches it */
+  onPage?: (meta: PaginationMeta) => void;
+}
+
+/**
+ * Options accepted by listAll methods: per-call options plus pagination options
+ */
+export type ListAllOptions = CallOptions &
+  Pick<PaginationOptions, 'pageSize' | 'startPage' | 'maxItems' | 'concurrency' | 'onPage'>;
+
+/**
+ * Pick the pagination options out of listAll options
+ */
+export function toPaginationOptions(options: ListAllOptions = {}): PaginationOptions {
+  const { pageSize = DEFAULT_PAGE_SIZE, startPage, maxItems, concurrency, onPage, signal } =
+    options;
+  return { pageSize, startPage, maxItems, concurrency, onPage, signal };
+}
+
+/**
+ * Fingerprint list params, independent of key order
+ */
+export function hashParams(params: Record<string, unknown>): string {
+  const canonical = JSON.stringify(params, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        )
+      : value
+  );
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read the id of a paginated item, if it has one
+ */
+function itemId(item: unknown): string | undefined {
+  if (typeof item === 'object' && item !== null && 'id' in item) {
+    return String(item.id);
+  }
+  return undefined;
+}
+
+/**
+ * Find where to continue within the checkpoint's page
+ * Items may have been added or removed before the checkpoint since it was
+ * taken. When the last-seen item has moved within the page, continue right
+ * after it; when it has left the page, replay the whole page rather than
+ * risk skipping items.
+ */
+function resumeIndex<T>(items: T[], checkpoint: PaginationCheckpoint): number {
+  if (checkpoint.lastId === undefined) {
+    return checkpoint.index;
+  }
+
+  if (itemId(items[checkpoint.index - 1]) === checkpoint.lastId) {
+    return checkpoint.index;
+  }
+  const found = items.findIndex((item) => itemId(item) === checkpoint.lastId);
+  return found + 1;
+}
+
+/**
+ * Fetch a page, returning undefined instead of failing once the signal has aborted
+ */
+async function fetchUnlessAborted<T>(
+  fetcher: PageFetcher<T>,
+  page: PaginationParams,
+  signal?: AbortSignal
+): Promise<PaginatedResponse<T> | undefined> {
+  if (signal?.aborted) {
+    return undefined;
+  }
+
+  try {
+    return await fetcher(page);
+  } catch (error) {
+    if (signal?.aborted) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load pages in order, prefetching up to `concurrency` pages ahead
+ * Prefetching starts once a response reports `totalPages`, never goes past
+ * `lastPage`, and only tops up the window when the consumer asks for a page.
+ */
+function createPageLoader<T>(
+  fetcher: PageFetcher<T>,
+  pageSize: number,
+  concurrency: number,
+  signal?: AbortSignal,
+  lastPage: number = Infinity
+): (pageNumber: number) => Promise<PaginatedResponse<T> | undefined> {
+  if (!(concurrency >= 1)) {
+    throw new Error('Pagination concurrency must be at least 1');
+  }
+
+  const pending = new Map<number, Promise<PaginatedResponse<T> | undefined>>();
+  let totalPages: number | undefined;
+
+  const request = (pageNumber: number) => {
+    const promise = fetchUnlessAborted(fetcher, { number: pageNumber, size: pageSize }, signal);
+    // Failures surface when the page is consumed
+    promise.catch(() => undefined);
+    pending.set(pageNumber, promise);
+  };
+
+  return async (pageNumber) => {
+    if (!pending.has(pageNumber)) {
+      request(pageNumber);
+    }
+    if (totalPages !== undefined) {
+      const windowEnd = Math.min(pageNumber + concurrency - 1, totalPages, lastPage);
+      for (let next = pageNumber + 1; next <= windowEnd; next++) {
+        if (!pending.has(next)) {
+          request(next);
+        }
+      }
+    }
+
+    const promise = pending.get(pageNumber) as Promise<PaginatedResponse<T> | undefined>;
+    pending.delete(pageNumber);
+    const response = await promise;
+    if (response?.meta?.totalPages !== undefined) {
+      totalPages = response.meta.totalPages;
+    }
+    return response;
+  };
 }
 
 /**
  * Create an async iterable that automatically paginates through all results
- * Yields individual items, not pages
+ * Yields individual items, not pages. `checkpoint()` reports the position
+ * after the last item yielded, which `resumeFrom` accepts to continue there.
  */
 export function createPaginatedIterator<T>(
   fetcher: PageFetcher<T>,
   options: PaginationOptions = {}
-): AsyncIterableWithHelpers<T> {
-  const pageSize = Math.min(options.pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
-  const startPage = options.startPage || 1;
-  const maxItems = options.maxItems;
+): PaginatedIterable<T> {
+  const { resumeFrom, maxItems, signal } = options;
+  const filterHash = options.filterHash ?? '';
+  const pageSize =
+    resumeFrom?.size ?? Math.min(options.pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const startPage = resumeFrom?.page ?? (options.startPage || 1);
+  // Pages beyond what maxItems can use are never prefetched
+  const lastPage =
+    maxItems === undefined
+      ? Infinity
+      : startPage + Math.ceil((maxItems + (resumeFrom?.index ?? 0)) / pageSize) - 1;
+  const loadPage = createPageLoader(fetcher, pageSize, options.concurrency ?? 1, signal, lastPage);
 
   let currentPage = startPage;
   let currentItems: T[] = [];
@@ -55,24 +212,42 @@ export function createPaginatedIterator<T>(
   let totalReturned = 0;
   let hasMore = true;
   let meta: PaginationMeta | undefined;
+  let position: PaginationCheckpoint = resumeFrom
+    ? { ...resumeFrom }
+    : { page: startPage, size: pageSize, index: 0, filterHash };
 
   const iterator: AsyncIterator<T> = {
     async next(): Promise<IteratorResult<T>> {
+      if (resumeFrom && resumeFrom.filterHash !== filterHash) {
+        throw new ITGlueCheckpointError(
+          'Cannot resume pagination: the params have changed since the checkpoint was taken',
+          resumeFrom
+        );
+      }
+
       // Check if we've hit the max items limit
       if (maxItems !== undefined && totalReturned >= maxItems) {
         return { done: true, value: undefined };
       }
 
+      // Stop cleanly once the caller aborts
+      if (signal?.aborted) {
+        return { done: true, value: undefined };
+      }
+
       // If we've exhausted current items, fetch the next page
       while (currentIndex >= currentItems.length && hasMore) {
-        const response = await fetcher({
-          number: currentPage,
-          size: pageSize,
-        });
+        const response = await loadPage(currentPage);
+        if (!response) {
+          return { done: true, value: undefined };
+        }
 
         currentItems = response.data;
         meta = response.meta;
-        currentIndex = 0;
+        options.onPage?.(response.meta);
+        // Skip the items already seen on the checkpoint's page
+        currentIndex =
+          resumeFrom && currentPage === startPage ? resumeIndex(currentItems, resumeFrom) : 0;
         currentPage++;
 
         // Check if there are more pages
@@ -92,26 +267,33 @@ export function createPaginatedIterator<T>(
       // Return the next item
       const item = currentItems[currentIndex++];
       totalReturned++;
+      position = {
+        page: currentPage - 1,
+        size: pageSize,
+        index: currentIndex,
+        filterHash,
+        lastId: itemId(item),
+      };
 
       return { done: false, value: item };
     },
   };
 
-  const iterable: AsyncIterableWithHelpers<T> = {
-    [Symbol.asyncIterator](): AsyncIterator<T> {
-      return iterator;
+  return {
+    ...withHelpers({
+      [Symbol.asyncIterator](): AsyncIterator<T> {
+        return iterator;
+      },
+    }),
+
+    checkpoint(): PaginationCheckpoint {
+      return { ...position };
     },
 
-    async toArray(): Promise<T[]> {
-      const results: T[] = [];
-      for await (const item of this) {
-        results.push(item);
-      }
-      return results;
+    get meta(): PaginationMeta | undefined {
+      return meta;
     },
   };
-
-  return iterable;
 }
 
 /**
@@ -123,6 +305,8 @@ export function createPageIterator<T>(
 ): AsyncIterableWithHelpers<PaginatedResponse<T>> {
   const pageSize = Math.min(options.pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
   const startPage = options.startPage || 1;
+  const signal = options.signal;
+  const loadPage = createPageLoader(fetcher, pageSize, options.concurrency ?? 1, signal);
 
   let currentPage = startPage;
   let hasMore = true;
@@ -133,11 +317,12 @@ export function createPageIterator<T>(
         return { done: true, value: undefined };
       }
 
-      const response = await fetcher({
-        number: currentPage,
-        size: pageSize,
-      });
+      const response = await loadPage(currentPage);
+      if (!response) {
+        return { done: true, value: undefined };
+      }
 
+      options.onPage?.(response.meta);
       currentPage++;
 
       // Check if there are more pages
@@ -154,21 +339,11 @@ export function createPageIterator<T>(
     },
   };
 
-  const iterable: AsyncIterableWithHelpers<PaginatedResponse<T>> = {
+  return withHelpers({
     [Symbol.asyncIterator](): AsyncIterator<PaginatedResponse<T>> {
       return iterator;
     },
-
-    async toArray(): Promise<PaginatedResponse<T>[]> {
-      const results: PaginatedResponse<T>[] = [];
-      for await (const page of this) {
-        results.push(page);
-      }
-      return results;
-    },
-  };
-
-  return iterable;
+  });
 }
 
 /**
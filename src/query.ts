@@ -0,0 +1,259 @@
+/**
+ * Fluent query builder for IT Glue resources
+ * Collects filter, sort and include options and runs them through a resource
+ */
+
+import type {
+  CallOptions,
+  FilterOperators,
+  ListParams,
+  PaginationMeta,
+} from './types/index.js';
+import { MAX_PAGE_SIZE } from './pagination.js';
+import type { ListAllOptions } from './pagination.js';
+
+/**
+ * The resource methods a query runs through
+ */
+export interface QueryableResource<TListParams> {
+  list(
+    params?: TListParams,
+    options?: CallOptions
+  ): Promise<{ data: unknown[]; meta: PaginationMeta }>;
+  listAll(params?: Omit<TListParams, 'page'>, options?: ListAllOptions): AsyncIterable<unknown>;
+}
+
+/**
+ * Comparison operators accepted by `where`
+ */
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=' | 'between' | 'in' | 'notIn';
+
+/**
+ * Filter object of a resource's list params
+ */
+export type QueryFilter<TListParams> = TListParams extends { filter?: infer F }
+  ? NonNullable<F>
+  : Record<string, unknown>;
+
+/**
+ * Value type for `where(field, operator, value)`
+ * Operators other than '=' are only available on fields that accept operator objects.
+ */
+export type QueryOperand<TField, TOperator extends QueryOperator> = TOperator extends '='
+  ? Exclude<NonNullable<TField>, OperatorObject<TField>>
+  : [OperatorObject<TField>] extends [never]
+    ? never
+    : OperatorObject<TField> extends FilterOperators<infer V>
+      ? TOperator extends 'between'
+        ? readonly [V, V]
+        : TOperator extends 'in' | 'notIn'
+          ? readonly V[]
+          : V
+      : never;
+
+type OperatorObject<T> = Exclude<Extract<T, object>, readonly unknown[] | Date>;
+
+type Element<T> = T extends readonly (infer E)[] ? E : T;
+
+/**
+ * Sort keys accepted by a resource's list params
+ */
+export type QuerySortKey<TListParams> = TListParams extends { sort?: infer S }
+  ? Element<NonNullable<S>>
+  : string;
+
+/**
+ * Include names accepted by a resource's list params
+ */
+export type QueryInclude<TListParams> = TListParams extends { include?: infer I }
+  ? Element<NonNullable<I>>
+  : string;
+
+/**
+ * Filter operator object keys for each `where` operator
+ */
+const OPERATOR_KEYS: Record<Exclude<QueryOperator, '='>, keyof FilterOperators<unknown>> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  between: 'between',
+  in: 'in',
+  notIn: 'notIn',
+};
+
+/**
+ * Check whether a filter value is an operator object
+ */
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Fluent, typed query against a single resource
+ *
+ * @example
+ * ```typescript
+ * const recent = await client.configurations
+ *   .query()
+ *   .where('organizationId', 12)
+ *   .where('updatedAt', '>', since)
+ *   .include('passwords')
+ *   .sort('-name')
+ *   .limit(500)
+ *   .list();
+ * ```
+ */
+export class QueryBuilder<
+  TResource extends { type: string },
+  TListParams extends ListParams = ListParams,
+> implements AsyncIterable<TResource> {
+  private readonly filter: Record<string, unknown> = {};
+  private readonly sortKeys: string[] = [];
+  private readonly includes: string[] = [];
+  private maxItems?: number;
+
+  constructor(
+    private readonly resource: QueryableResource<TListParams>,
+    private readonly options?: CallOptions
+  ) {}
+
+  /**
+   * Filter on a field, either by equality or with a comparison operator
+   * Conditions on the same field are combined, e.g. a `>=` and a `<` bound.
+   */
+  where<K extends keyof QueryFilter<TListParams> & string>(
+    field: K,
+    value: QueryOperand<QueryFilter<TListParams>[K], '='>
+  ): this;
+  where<K extends keyof QueryFilter<TListParams> & string, O extends QueryOperator>(
+    field: K,
+    operator: O,
+    value: QueryOperand<QueryFilter<TListParams>[K], O>
+  ): this;
+  where(field: string, ...args: unknown[]): this {
+    const [operator, value]: [QueryOperator, unknown] =
+      args.length === 1 ? ['=', args[0]] : (args as [QueryOperator, unknown]);
+
+    if (operator === '=') {
+      this.filter[field] = value;
+      return this;
+    }
+
+    const existing = this.filter[field];
+    this.filter[field] = {
+      ...(isOperatorObject(existing) ? existing : {}),
+      [OPERATOR_KEYS[operator]]: value,
+    };
+    return this;
+  }
+
+  /**
+   * Sort by one or more keys, prefixed with `-` for descending order
+   */
+  sort(...keys: QuerySortKey<TListParams>[]): this {
+    this.sortKeys.push(...(keys as string[]));
+    return this;
+  }
+
+  /**
+   * Sideload related resources
+   */
+  include(...names: QueryInclude<TListParams>[]): this {
+    this.includes.push(...(names as string[]));
+    return this;
+  }
+
+  /**
+   * Cap the number of resources returned
+   */
+  limit(count: number): this {
+    if (!(count >= 0)) {
+      throw new Error('Query limit must be zero or more');
+    }
+    this.maxItems = count;
+    return this;
+  }
+
+  /**
+   * Build the list params this query sends
+   */
+  toParams(): TListParams {
+    const params: Record<string, unknown> = {};
+    if (Object.keys(this.filter).length > 0) {
+      params.filter = { ...this.filter };
+    }
+    if (this.sortKeys.length > 0) {
+      params.sort = [...this.sortKeys];
+    }
+    if (this.includes.length > 0) {
+      params.include = [...this.includes];
+    }
+    return params as TListParams;
+  }
+
+  /**
+   * Fetch a single page of results, sized to the limit when one is set
+   */
+  async list(): Promise<{ data: TResource[]; meta: PaginationMeta }> {
+    const params = this.toParams();
+    if (this.maxItems !== undefined) {
+      params.page = { size: Math.min(Math.max(this.maxItems, 1), MAX_PAGE_SIZE) };
+    }
+    const { data, meta } = await this.resource.list(params, this.options);
+    return {
+      data: data.slice(0, this.maxItems) as TResource[],
+      meta,
+    };
+  }
+
+  /**
+   * Fetch the first matching resource, or undefined when nothing matches
+   */
+  async first(): Promise<TResource | undefined> {
+    const params = { ...this.toParams(), page: { size: 1 } };
+    const { data } = await this.resource.list(params, this.options);
+    return data[0] as TResource | undefined;
+  }
+
+  /**
+   * Count matching resources without fetching them all
+   */
+  async count(): Promise<number> {
+    const params = { ...this.toParams(), page: { size: 1 } };
+    const { meta } = await this.resource.list(params, this.options);
+    return meta.totalCount;
+  }
+
+  /**
+   * Iterate over every matching resource across pages, up to the limit
+   * A limit caps the page size as well, so small limits fetch small pages.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<TResource> {
+    let remaining = this.maxItems ?? Infinity;
+    if (remaining <= 0) {
+      return;
+    }
+
+    const options: ListAllOptions =
+      this.maxItems === undefined
+        ? { ...this.options }
+        : {
+            ...this.options,
+            maxItems: this.maxItems,
+            pageSize: Math.min(this.maxItems, MAX_PAGE_SIZE),
+          };
+
+    for await (const item of this.resource.listAll(this.toParams(), options)) {
+      yield item as TResource;
+      if (--remaining <= 0) {
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Rate limit stores for sharing the request window between clients
+ */
+
+import { randomUUID } from 'node:crypto';
+import { link, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import type { RateLimitReservation, RateLimitStore } from './types/index.js';
+
+/**
+ * Drop timestamps older than the window start
+ */
+function pruneTimestamps(timestamps: number[], windowStart: number): number[] {
+  return timestamps.filter((timestamp) => timestamp >= windowStart);
+}
+
+/**
+ * Record a timestamp if the window has room, keeping the list sorted
+ */
+function reserveTimestamp(
+  timestamps: number[],
+  windowStart: number,
+  timestamp: number,
+  limit: number
+): RateLimitReservation {
+  const pruned = pruneTimestamps(timestamps, windowStart);
+  if (pruned.length >= limit) {
+    return { granted: false, timestamps: pruned };
+  }
+
+  pruned.push(timestamp);
+  pruned.sort((a, b) => a - b);
+  return { granted: true, timestamps: pruned };
+}
+
+/**
+ * Pad the window with placeholder timestamps until it holds `used` entries
+ */
+function syncTimestamps(
+  timestamps: number[],
+  windowStart: number,
+  used: number,
+  timestamp: number
+): number[] {
+  const pruned = pruneTimestamps(timestamps, windowStart);
+  for (let count = pruned.length; count < used; count++) {
+    pruned.push(timestamp);
+  }
+  pruned.sort((a, b) => a - b);
+  return pruned;
+}
+
+/**
+ * In-memory rate limit store
+ * Share one instance between clients in the same process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private timestamps: number[] = [];
+
+  async reserve(
+    windowStart: number,
+    timestamp: number,
+    limit: number
+  ): Promise<RateLimitReservation> {
+    const result = reserveTimestamp(this.timestamps, windowStart, timestamp, limit);
+    this.timestamps = result.timestamps;
+    return { granted: result.granted, timestamps: [...result.timestamps] };
+  }
+
+  async snapshot(windowStart: number): Promise<number[]> {
+    this.timestamps = pruneTimestamps(this.timestamps, windowStart);
+    return [...this.timestamps];
+  }
+
+  async sync(windowStart: number, used: number, timestamp: number): Promise<number[]> {
+    this.timestamps = syncTimestamps(this.timestamps, windowStart, used, timestamp);
+    return [...this.timestamps];
+  }
+
+  async clear(): Promise<void> {
+    this.timestamps = [];
+  }
+}
+
+/**
+ * Options for the file-backed rate limit store
+ */
+export interface FileRateLimitStoreOptions {
+  /** Maximum time to wait for the lock in milliseconds (default: 5000) */
+  lockTimeoutMs?: number;
+  /** Age after which a lock left by a crashed process is broken (default: 10000) */
+  staleLockMs?: number;
+}
+
+/**
+ * File-backed rate limit store
+ * Shares the window between processes on one host. Every operation holds an
+ * exclusive lock file (`<path>.lock`) while it reads and rewrites the JSON file.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(filePath: string, options: FileRateLimitStoreOptions = {}) {
+    this.filePath = filePath;
+    this.lockPath = `${filePath}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 10000;
+  }
+
+  async reserve(
+    windowStart: number,
+    timestamp: number,
+    limit: number
+  ): Promise<RateLimitReservation> {
+    return this.withLock(async () => {
+      const result = reserveTimestamp(await this.read(), windowStart, timestamp, limit);
+      await this.write(result.timestamps);
+      return result;
+    });
+  }
+
+  async snapshot(windowStart: number): Promise<number[]> {
+    return this.withLock(async () => pruneTimestamps(await this.read(), windowStart));
+  }
+
+  async sync(windowStart: number, used: number, timestamp: number): Promise<number[]> {
+    return this.withLock(async () => {
+      const timestamps = syncTimestamps(await this.read(), windowStart, used, timestamp);
+      await this.write(timestamps);
+      return timestamps;
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.withLock(() => this.write([]));
+  }
+
+  /**
+   * Read timestamps from disk, treating a missing or corrupt file as empty
+   */
+  private async read(): Promise<number[]> {
+    try {
+      const parsed: unknown = JSON.parse(await readFile(this.filePath, 'utf8'));
+      return Array.isArray(parsed)
+        ? parsed.filter((value): value is number => typeof value === 'number')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Write timestamps atomically via a temporary file
+   */
+  private async write(timestamps: number[]): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(timestamps));
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Run an operation while holding the lock file
+   * The lock holds a token unique to this call, so it is only released by its owner.
+   */
+  private async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const token = `${process.pid}-${randomUUID()}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        try {
+          await handle.writeFile(token);
+        } finally {
+          await handle.close();
+        }
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Break locks left behind by crashed processes
+      if (await this.breakStaleLock(token)) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for rate limit lock ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    try {
+      return await operation();
+    } finally {
+      // A slow operation may have had its lock broken and taken by another process
+      const owner = await readFile(this.lockPath, 'utf8').catch(() => undefined);
+      if (owner === token) {
+        await unlink(this.lockPath).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Remove the lock if it is stale, reporting whether it was
+   * The lock is renamed to a name unique to this caller first, so two waiters that
+   * both saw it stale cannot delete a fresh lock taken in between.
+   */
+  private async breakStaleLock(token: string): Promise<boolean> {
+    if (!(await this.isStale(this.lockPath))) {
+      return false;
+    }
+
+    const stalePath = `${this.lockPath}.${token}`;
+    try {
+      await rename(this.lockPath, stalePath);
+    } catch {
+      // Another waiter moved it first
+      return true;
+    }
+
+    // Put back a fresh lock that replaced the stale one before the rename
+    if (!(await this.isStale(stalePath))) {
+      await link(stalePath, this.lockPath).catch(() => undefined);
+    }
+    await unlink(stalePath).catch(() => undefined);
+    return true;
+  }
+
+  /**
+   * Check whether a lock file is older than the stale lock age
+   */
+  private async isStale(path: string): Promise<boolean> {
+    return stat(path).then(
+      (info) => Date.now() - info.mtimeMs > this.staleLockMs,
+      () => false
+    );
+  }
+}
@@ -3,7 +3,9 @@
  * IT Glue allows 3000 requests per 5-minute sliding window
  */
 
-import type { RateLimitConfig } from './types/index.js';
+import type { RateLimitConfig, RateLimitStore } from './types/index.js';
+import { MemoryRateLimitStore } from './rate-limit-store.js';
+import { raceAbort, sleep } from './abort.js';
 
 /**
  * Timestamp of a request for rate limiting tracking
@@ -12,15 +14,72 @@ interface RequestTimestamp {
   timestamp: number;
 }
 
+/**
+ * Rate limit state as reported by the server in response headers
+ */
+export interface ServerRateLimitState {
+  /** Requests allowed per window */
+  limit?: number;
+  /** Requests remaining in the current window */
+  remaining: number;
+  /** Time at which the window resets (epoch milliseconds) */
+  resetAt?: number;
+}
+
+/**
+ * Read the first present header from a list of candidate names
+ */
+function readNumericHeader(headers: Headers, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse rate limit headers (X-RateLimit-* or the IETF RateLimit-* draft)
+ * Returns undefined when the response carries no remaining count
+ */
+export function parseRateLimitHeaders(headers: Headers): ServerRateLimitState | undefined {
+  const remaining = readNumericHeader(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+  if (remaining === undefined) {
+    return undefined;
+  }
+
+  const limit = readNumericHeader(headers, ['x-ratelimit-limit', 'ratelimit-limit']);
+  const reset = readNumericHeader(headers, ['x-ratelimit-reset', 'ratelimit-reset']);
+
+  let resetAt: number | undefined;
+  if (reset !== undefined) {
+    // Large values are epoch seconds, small values are seconds until reset
+    resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+  }
+
+  return { limit, remaining, resetAt };
+}
+
 /**
  * Rate limiter class that tracks requests and enforces limits
  */
 export class RateLimiter {
   private readonly config: RateLimitConfig;
   private readonly requests: RequestTimestamp[] = [];
+  /** Shared record of requests; `requests` is this limiter's last view of it */
+  private readonly store: RateLimitStore;
+  private serverState?: ServerRateLimitState & { syncedAt: number };
+  /** Tail of the FIFO reservation queue */
+  private queue: Promise<void> = Promise.resolve();
+  /** Tail of the best-effort store writes, kept off the reservation queue */
+  private writes: Promise<void> = Promise.resolve();
+  /** Number of callers waiting for a slot */
+  private waiting = 0;
 
   constructor(config: RateLimitConfig) {
     this.config = config;
+    this.store = config.store ?? new MemoryRateLimitStore();
   }
 
   /**
@@ -30,6 +89,13 @@ export class RateLimiter {
     return this.config.enabled;
   }
 
+  /**
+   * Maximum requests per window, preferring the limit reported by the server
+   */
+  get maxRequests(): number {
+    return this.serverState?.limit ?? this.config.maxRequests;
+  }
+
   /**
    * Get the current number of requests in the window
    */
@@ -42,7 +108,7 @@ export class RateLimiter {
    * Get the remaining requests in the window
    */
   get remaining(): number {
-    return Math.max(0, this.config.maxRequests - this.currentCount);
+    return Math.max(0, this.maxRequests - this.currentCount);
   }
 
   /**
@@ -52,7 +118,7 @@ export class RateLimiter {
     if (!this.config.enabled) {
       return false;
     }
-    const ratio = this.currentCount / this.config.maxRequests;
+    const ratio = this.currentCount / this.maxRequests;
     return ratio >= this.config.throttleThreshold;
   }
 
@@ -63,7 +129,7 @@ export class RateLimiter {
     if (!this.config.enabled) {
       return false;
     }
-    return this.currentCount >= this.config.maxRequests;
+    return this.currentCount >= this.maxRequests;
   }
 
   /**
@@ -76,15 +142,88 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Replace the local view with timestamps read from the store
+   */
+  private setRequests(timestamps: number[]): void {
+    this.requests.length = 0;
+    for (const timestamp of timestamps) {
+      this.requests.push({ timestamp });
+    }
+  }
+
+  /**
+   * Queue a write to the store behind earlier writes (best effort)
+   */
+  private persist(operation: () => Promise<unknown>): void {
+    this.writes = this.writes.then(operation).then(
+      () => undefined,
+      () => undefined
+    );
+  }
+
   /**
    * Record a new request
+   * Prefer `acquire()`, which reserves the slot atomically in the store
    */
   recordRequest(): void {
     if (!this.config.enabled) {
       return;
     }
     this.pruneOldRequests();
-    this.requests.push({ timestamp: Date.now() });
+    const timestamp = Date.now();
+    this.requests.push({ timestamp });
+    this.persist(() =>
+      this.store.reserve(timestamp - this.config.windowMs, timestamp, Infinity)
+    );
+  }
+
+  /**
+   * Re-synchronise the window with rate limit headers from a response
+   */
+  syncFromHeaders(headers: Headers): void {
+    const state = parseRateLimitHeaders(headers);
+    if (state) {
+      this.syncFromServer(state);
+    }
+  }
+
+  /**
+   * Re-synchronise the window with the server's view of usage
+   * Adds or drops tracked requests so the local count matches the server.
+   * The shared store only gains placeholders for requests it has not seen;
+   * reservations made by other limiters are kept.
+   */
+  syncFromServer(state: ServerRateLimitState): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    this.serverState = { ...state, syncedAt: now };
+    this.pruneOldRequests();
+
+    const used = Math.max(0, this.maxRequests - state.remaining);
+    const difference = used - this.requests.length;
+
+    // Requests we did not see (e.g. other clients sharing the key) expire
+    // when the server window resets
+    const timestamp = state.resetAt !== undefined
+      ? Math.min(now, state.resetAt - this.config.windowMs)
+      : now;
+
+    if (difference > 0) {
+      for (let i = 0; i < difference; i++) {
+        this.requests.push({ timestamp });
+      }
+      this.requests.sort((a, b) => a.timestamp - b.timestamp);
+    } else if (difference < 0) {
+      // The server has already forgotten our oldest requests
+      this.requests.splice(0, -difference);
+    }
+
+    const windowStart = now - this.config.windowMs;
+    this.persist(() => this.store.sync(windowStart, used, timestamp));
   }
 
   /**
@@ -113,7 +252,7 @@ export class RateLimiter {
 
     // If we're throttling but not limited, add a small delay
     // This spreads out requests to avoid hitting the limit
-    const usedRatio = this.currentCount / this.config.maxRequests;
+    const usedRatio = this.currentCount / this.maxRequests;
     const throttleRatio = (usedRatio - this.config.throttleThreshold) / (1 - this.config.throttleThreshold);
 
     // Scale the delay based on how close we are to the limit
@@ -124,25 +263,69 @@ export class RateLimiter {
   /**
    * Wait for the required delay before continuing
    */
-  async waitIfNeeded(): Promise<void> {
+  async waitIfNeeded(signal?: AbortSignal): Promise<void> {
     const delay = this.getDelayMs();
     if (delay > 0) {
-      await this.sleep(delay);
+      await sleep(delay, signal);
     }
   }
 
   /**
-   * Reset the rate limiter (for testing or reconnection)
+   * Reserve a slot for one request
+   * Callers are served in FIFO order and the request is counted as soon as
+   * the slot is granted, so concurrent callers cannot overshoot the limit.
+   * An aborted caller leaves the queue immediately and never takes a slot.
    */
-  reset(): void {
-    this.requests.length = 0;
+  acquire(signal?: AbortSignal): Promise<void> {
+    this.waiting++;
+    const reservation = this.queue.then(async () => {
+      try {
+        signal?.throwIfAborted();
+        await this.reserve(signal);
+      } finally {
+        this.waiting--;
+      }
+    });
+    // Keep the queue moving even if a reservation fails
+    this.queue = reservation.catch(() => undefined);
+    return raceAbort(reservation, signal);
   }
 
   /**
-   * Sleep for the specified number of milliseconds
+   * Wait for a free slot and record it
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private async reserve(signal?: AbortSignal): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    // Pick up requests made by other limiters sharing the store
+    this.setRequests(await this.store.snapshot(Date.now() - this.config.windowMs));
+
+    // Throttling applies once; a hard limit is waited out until a slot frees up
+    await this.waitIfNeeded(signal);
+    for (;;) {
+      const now = Date.now();
+      const result = await this.store.reserve(
+        now - this.config.windowMs,
+        now,
+        this.maxRequests
+      );
+      this.setRequests(result.timestamps);
+      if (result.granted) {
+        return;
+      }
+      await sleep(Math.max(1, this.getDelayMs()), signal);
+    }
+  }
+
+  /**
+   * Reset the rate limiter (for testing or reconnection)
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.serverState = undefined;
+    this.persist(() => this.store.clear());
   }
 
   /**
@@ -157,16 +340,22 @@ export class RateLimiter {
     isThrottling: boolean;
     isLimited: boolean;
     delayMs: number;
+    /** Callers waiting for a slot */
+    queued: number;
+    /** Last state reported by the server, if any */
+    server?: ServerRateLimitState & { syncedAt: number };
   } {
     return {
       enabled: this.enabled,
       currentCount: this.currentCount,
-      maxRequests: this.config.maxRequests,
+      maxRequests: this.maxRequests,
       remaining: this.remaining,
       windowMs: this.config.windowMs,
       isThrottling: this.isThrottling,
       isLimited: this.isLimited,
       delayMs: this.getDelayMs(),
+      queued: this.waiting,
+      server: this.serverState ? { ...this.serverState } : undefined,
     };
   }
 }
@@ -180,20 +369,66 @@ export interface RetryConfig {
   maxDelayMs?: number;
   /** Optional callback to determine if an error should be retried */
   shouldRetry?: (error: Error) => boolean;
+  /**
+   * Optional callback returning a server-requested delay (e.g. Retry-After)
+   * that replaces the exponential backoff for this attempt
+   */
+  getRetryDelay?: (error: Error) => number | undefined;
+  /** Stops waiting between attempts when aborted */
+  signal?: AbortSignal;
+  /**
+   * Backoff jitter: 'partial' adds up to 10% to the exponential delay (default),
+   * 'full' picks a random delay between 0 and the exponential delay
+   */
+  jitter?: 'partial' | 'full';
+  /**
+   * Give up once this many milliseconds have passed since the first attempt
+   * The attempt in flight at the deadline is aborted through the signal passed to `fn`.
+   */
+  deadlineMs?: number;
+  /** Called before waiting for each retry (attempt starts at 1) */
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Calculate the exponential backoff delay for a retry, including jitter
+ */
+function backoffDelay(attempt: number, config: RetryConfig): number {
+  const delay = Math.min(
+    config.baseDelayMs * Math.pow(2, attempt),
+    config.maxDelayMs || 60000
+  );
+
+  // Full jitter spreads retries from many clients across the whole window
+  if (config.jitter === 'full') {
+    return Math.random() * delay;
+  }
+
+  // Add some jitter to prevent thundering herd
+  return delay + Math.random() * delay * 0.1;
 }
 
 /**
  * Retry with exponential backoff for rate-limited requests
+ * `fn` receives a signal that aborts when the caller's signal does or the deadline passes.
  */
 export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
+  fn: (signal?: AbortSignal) => Promise<T>,
   config: RetryConfig
 ): Promise<T> {
   let lastError: Error | undefined;
+  const deadline =
+    config.deadlineMs !== undefined ? Date.now() + config.deadlineMs : undefined;
+  const deadlineSignal =
+    config.deadlineMs !== undefined ? AbortSignal.timeout(config.deadlineMs) : undefined;
+  const signal =
+    config.signal && deadlineSignal
+      ? AbortSignal.any([config.signal, deadlineSignal])
+      : (config.signal ?? deadlineSignal);
 
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
     try {
-      return await fn();
+      return await fn(signal);
     } catch (error) {
       lastError = error as Error;
 
@@ -202,20 +437,34 @@ export async function retryWithBackoff<T>(
         throw lastError;
       }
 
+      // The deadline passed while the attempt was in flight
+      if (deadlineSignal?.aborted) {
+        throw lastError;
+      }
+
       // Don't retry if this is the last attempt
       if (attempt === config.maxRetries) {
         throw lastError;
       }
 
-      // Calculate exponential backoff delay
-      const delay = Math.min(
-        config.baseDelayMs * Math.pow(2, attempt),
-        config.maxDelayMs || 60000
-      );
+      // Honor the delay requested by the server, if any
+      const delay = config.getRetryDelay?.(lastError) ?? backoffDelay(attempt, config);
 
-      // Add some jitter to prevent thundering herd
-      const jitter = Math.random() * delay * 0.1;
-      await new Promise((resolve) => setTimeout(resolve, delay + jitter));
+      // Don't start a retry that would finish past the deadline
+      if (deadline !== undefined && Date.now() + delay > deadline) {
+        throw lastError;
+      }
+
+      config.onRetry?.(lastError, attempt + 1, delay);
+      try {
+        await sleep(delay, signal);
+      } catch (error) {
+        // Reaching the deadline while waiting reports the last failure
+        if (config.signal?.aborted || !deadlineSignal?.aborted) {
+          throw error;
+        }
+        throw lastError;
+      }
     }
   }
 
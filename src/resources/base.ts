@@ -6,12 +6,30 @@
 import type { HttpClient } from '../http.js';
 import type {
   AsyncIterableWithHelpers,
+  BulkOptions,
+  BulkResult,
+  BulkUpdateItem,
+  CallOptions,
   ListParams,
+  PaginatedIterable,
   PaginatedResponse,
   PaginationMeta,
+  RawResponse,
+  ResponseDetails,
+  ResponseView,
+  ResumableParams,
+  WithFields,
 } from '../types/index.js';
+import { ITGlueAbortError } from '../errors.js';
+import { QueryBuilder } from '../query.js';
 import { buildFilterParams } from '../jsonapi.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import {
+  createPageIterator,
+  createPaginatedIterator,
+  hashParams,
+  toPaginationOptions,
+} from '../pagination.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Options for the base resource
@@ -25,12 +43,141 @@ export interface BaseResourceOptions {
   type: string;
 }
 
+/**
+ * Wrap a resource so its promise-returning methods resolve to a RawResponse
+ * Each call runs against a view of `client` that records the last response received.
+ * A call that sends no request, such as an empty bulk call, reports status 0.
+ */
+export function createResponseView<T extends object>(
+  resource: T,
+  client: HttpClient
+): ResponseView<T> {
+  return new Proxy(resource, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      return (...args: unknown[]) => {
+        let details: ResponseDetails = { status: 0, headers: new Headers() };
+        const scoped = Object.create(target, {
+          client: { value: client.observe((received) => (details = received)) },
+        }) as T;
+
+        const startedAt = performance.now();
+        const result: unknown = value.apply(scoped, args);
+        if (!(result instanceof Promise)) {
+          return result;
+        }
+        return result.then(
+          (data): RawResponse<unknown> => ({
+            ...details,
+            data,
+            durationMs: performance.now() - startedAt,
+          })
+        );
+      };
+    },
+  }) as unknown as ResponseView<T>;
+}
+
+/**
+ * List params accepted by the shared list helpers
+ */
+type QueryParams = ListParams & { filter?: object };
+
+/**
+ * Build query parameters for a list request
+ */
+export function buildListParams(params?: QueryParams): Record<string, unknown> {
+  if (!params) {
+    return {};
+  }
+
+  const result: Record<string, unknown> = {};
+
+  // Handle filter
+  if (params.filter) {
+    result.filter = buildFilterParams(params.filter as Record<string, unknown>);
+  }
+
+  // Handle pagination
+  if (params.page) {
+    result.page = params.page;
+  }
+
+  // Handle sort
+  if (params.sort) {
+    result.sort = params.sort;
+  }
+
+  // Handle include
+  if (params.include) {
+    result.include = params.include;
+  }
+
+  // Handle sparse fieldsets
+  if (params.fields) {
+    result.fields = params.fields;
+  }
+
+  return result;
+}
+
+/**
+ * Iterate every resource under a list path with automatic pagination
+ * Shared by resource classes so each `listAll*` method resumes and paginates the same way.
+ */
+export function paginateList<T>(
+  client: HttpClient,
+  path: string,
+  params?: QueryParams & ResumableParams,
+  options?: ListAllOptions,
+  buildParams: (params?: QueryParams) => Record<string, unknown> = buildListParams
+): PaginatedIterable<T> {
+  const baseParams = buildParams(params);
+
+  return createPaginatedIterator<T>(
+    async (page) => {
+      const response = await client.list<T>(path, { ...baseParams, page }, options);
+      return { data: response.data, meta: response.meta } as PaginatedResponse<T>;
+    },
+    {
+      ...toPaginationOptions(options),
+      resumeFrom: params?.resumeFrom,
+      filterHash: hashParams(baseParams),
+    }
+  );
+}
+
+/**
+ * Iterate the pages under a list path, yielding each response whole
+ */
+export function paginatePages<T>(
+  client: HttpClient,
+  path: string,
+  params?: QueryParams,
+  options?: ListAllOptions,
+  buildParams: (params?: QueryParams) => Record<string, unknown> = buildListParams
+): AsyncIterableWithHelpers<PaginatedResponse<T>> {
+  const baseParams = buildParams(params);
+
+  return createPageIterator<T>(
+    async (page) => {
+      const response = await client.list<T>(path, { ...baseParams, page }, options);
+      return { data: response.data, meta: response.meta } as PaginatedResponse<T>;
+    },
+    toPaginationOptions(options)
+  );
+}
+
 /**
  * Base class for IT Glue API resources
  * Provides standard CRUD operations
  */
 export abstract class BaseResource<
-  TResource,
+  TResource extends { type: string },
   TListParams extends ListParams = ListParams,
   TGetParams = Record<string, unknown>,
   TCreateData = Record<string, unknown>,
@@ -50,33 +197,7 @@ export abstract class BaseResource<
    * Build query parameters for a list request
    */
   protected buildListParams(params?: TListParams): Record<string, unknown> {
-    if (!params) {
-      return {};
-    }
-
-    const result: Record<string, unknown> = {};
-
-    // Handle filter
-    if ('filter' in params && params.filter) {
-      result.filter = buildFilterParams(params.filter as Record<string, unknown>);
-    }
-
-    // Handle pagination
-    if (params.page) {
-      result.page = params.page;
-    }
-
-    // Handle sort
-    if (params.sort) {
-      result.sort = params.sort;
-    }
-
-    // Handle include
-    if (params.include) {
-      result.include = params.include;
-    }
-
-    return result;
+    return buildListParams(params);
   }
 
   /**
@@ -91,168 +212,289 @@ export abstract class BaseResource<
 
   /**
    * List resources with pagination
+   * When `params.fields` selects fields for this type, the result is narrowed to them.
    */
-  async list(
-    params?: TListParams
-  ): Promise<{ data: TResource[]; meta: PaginationMeta }> {
+  async list<P extends TListParams>(
+    params?: P,
+    options?: CallOptions
+  ): Promise<{ data: WithFields<TResource, P>[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
-    return this.client.list<TResource>(this.basePath, queryParams);
+    return this.client.list<WithFields<TResource, P>>(this.basePath, queryParams, options);
   }
 
   /**
    * List all resources with automatic pagination
    * Returns an async iterable that yields individual resources
+   *
+   * @example
+   * ```typescript
+   * const configs = client.configurations.listAll({ resumeFrom: savedCheckpoint });
+   * for await (const config of configs) {
+   *   await process(config);
+   *   savedCheckpoint = configs.checkpoint();
+   * }
+   * ```
    */
-  listAll(params?: Omit<TListParams, 'page'>): AsyncIterableWithHelpers<TResource> {
-    const baseParams = this.buildListParams(params as TListParams);
-
-    return createPaginatedIterator<TResource>(
-      async (page) => {
-        const queryParams = {
-          ...baseParams,
-          page,
-        };
-        const response = await this.client.list<TResource>(this.basePath, queryParams);
-        return {
-          data: response.data,
-          meta: response.meta,
-        } as PaginatedResponse<TResource>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
+  listAll<P extends Omit<TListParams, 'page'>>(
+    params?: P & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<WithFields<TResource, P>> {
+    return this.listAllAt<WithFields<TResource, P>>(this.basePath, params, options);
+  }
+
+  /**
+   * List resources page by page with automatic pagination
+   * Yields each page with its pagination meta instead of individual resources.
+   */
+  listPages<P extends Omit<TListParams, 'page'>>(
+    params?: P,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<WithFields<TResource, P>>> {
+    return this.listPagesAt<WithFields<TResource, P>>(this.basePath, params, options);
+  }
+
+  /**
+   * Iterate every resource under a list path, such as a parent's relationship
+   */
+  protected listAllAt<T = TResource>(
+    path: string,
+    params?: Omit<TListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<T> {
+    const query = params as QueryParams & ResumableParams;
+    return paginateList(this.client, path, query, options, (built) =>
+      this.buildListParams(built as TListParams)
+    );
+  }
+
+  /**
+   * Iterate the pages under a list path, such as a parent's relationship
+   */
+  protected listPagesAt<T = TResource>(
+    path: string,
+    params?: Omit<TListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<T>> {
+    const query = params as QueryParams & ResumableParams;
+    return paginatePages(this.client, path, query, options, (built) =>
+      this.buildListParams(built as TListParams)
     );
   }
 
   /**
    * Get a single resource by ID
    */
-  async get(id: string | number, params?: TGetParams): Promise<TResource> {
+  async get<P extends TGetParams>(
+    id: string | number,
+    params?: P,
+    options?: CallOptions
+  ): Promise<WithFields<TResource, P>> {
     const queryParams = this.buildGetParams(params);
-    return this.client.getOne<TResource>(`${this.basePath}/${id}`, queryParams);
+    return this.client.getOne<WithFields<TResource, P>>(
+      `${this.basePath}/${id}`,
+      queryParams,
+      options
+    );
+  }
+
+  /**
+   * Start a fluent query against this resource
+   *
+   * @example
+   * ```typescript
+   * for await (const config of client.configurations
+   *   .query()
+   *   .where('organizationId', 12)
+   *   .sort('-updated_at')) {
+   *   console.log(config.name);
+   * }
+   * ```
+   */
+  query(options?: CallOptions): QueryBuilder<TResource, TListParams> {
+    return new QueryBuilder<TResource, TListParams>(this, options);
+  }
+
+  /**
+   * Call this resource's methods with the HTTP response attached to each result
+   *
+   * @example
+   * ```typescript
+   * const { data: org, status, headers, requestId } = await client.organizations
+   *   .withResponse()
+   *   .get(123);
+   * ```
+   */
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * Create a new resource
    */
-  async create(data: TCreateData): Promise<TResource> {
+  async create(data: TCreateData, options?: CallOptions): Promise<TResource> {
     return this.client.postAndDeserialize<TResource>(
       this.basePath,
       this.type,
-      data as Record<string, unknown>
+      data as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Update an existing resource
    */
-  async update(id: string | number, data: TUpdateData): Promise<TResource> {
+  async update(
+    id: string | number,
+    data: TUpdateData,
+    options?: CallOptions
+  ): Promise<TResource> {
     return this.client.patchAndDeserialize<TResource>(
       `${this.basePath}/${id}`,
       this.type,
       String(id),
-      data as Record<string, unknown>
+      data as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a resource
    */
-  async delete(id: string | number): Promise<void> {
-    await this.client.delete(`${this.basePath}/${id}`);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`${this.basePath}/${id}`, options);
   }
-}
 
-/**
- * Base class for nested resources (e.g., /organizations/:id/relationships/locations)
- */
-export abstract class NestedResource<
-  TResource,
-  TListParams extends ListParams = ListParams,
-  TGetParams = Record<string, unknown>,
-  TCreateData = Record<string, unknown>,
-  TUpdateData = Record<string, unknown>
-> extends BaseResource<TResource, TListParams, TGetParams, TCreateData, TUpdateData> {
   /**
-   * Build the path for a nested resource
+   * Create many resources, sent as JSON:API array payloads
+   * Protected like the other bulk methods: a subclass exposes the ones its endpoint accepts.
    */
-  protected buildNestedPath(parentId: string | number): string {
-    return this.basePath.replace(':parentId', String(parentId));
+  protected async bulkCreate(
+    items: TCreateData[],
+    options?: BulkOptions
+  ): Promise<BulkResult<TResource, TCreateData>> {
+    return this.runBulk(items, options, (chunk, callOptions) =>
+      this.client.bulk<TResource>(
+        'POST',
+        this.basePath,
+        this.type,
+        chunk as Record<string, unknown>[],
+        callOptions
+      )
+    );
   }
 
   /**
-   * List resources under a parent with pagination
+   * Update many resources, sent as JSON:API array payloads
    */
-  async listByParent(
-    parentId: string | number,
-    params?: TListParams
-  ): Promise<{ data: TResource[]; meta: PaginationMeta }> {
-    const path = this.buildNestedPath(parentId);
-    const queryParams = this.buildListParams(params);
-    return this.client.list<TResource>(path, queryParams);
+  protected async bulkUpdate(
+    items: BulkUpdateItem<TUpdateData>[],
+    options?: BulkOptions
+  ): Promise<BulkResult<TResource, BulkUpdateItem<TUpdateData>>> {
+    return this.runBulk(items, options, (chunk, callOptions) =>
+      this.client.bulk<TResource>(
+        'PATCH',
+        this.basePath,
+        this.type,
+        chunk as Record<string, unknown>[],
+        callOptions
+      )
+    );
   }
 
   /**
-   * List all resources under a parent with automatic pagination
+   * Delete many resources by ID, sent as JSON:API array payloads
+   * Resolves with the IDs of the deleted resources.
    */
-  listAllByParent(
-    parentId: string | number,
-    params?: Omit<TListParams, 'page'>
-  ): AsyncIterableWithHelpers<TResource> {
-    const path = this.buildNestedPath(parentId);
-    const baseParams = this.buildListParams(params as TListParams);
-
-    return createPaginatedIterator<TResource>(
-      async (page) => {
-        const queryParams = {
-          ...baseParams,
-          page,
-        };
-        const response = await this.client.list<TResource>(path, queryParams);
-        return {
-          data: response.data,
-          meta: response.meta,
-        } as PaginatedResponse<TResource>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+  protected async bulkDestroy(
+    ids: (string | number)[],
+    options?: BulkOptions
+  ): Promise<BulkResult<string | number, string | number>> {
+    return this.runBulk(ids, options, async (chunk, callOptions) => {
+      await this.client.bulk(
+        'DELETE',
+        this.basePath,
+        this.type,
+        chunk.map((id) => ({ id })),
+        callOptions
+      );
+      return chunk;
+    });
   }
 
   /**
-   * Create a resource under a parent
+   * Send items in one request, or in batches of `chunkSize` one after another
+   * A failed batch is recorded against its items; an abort stops the run.
    */
-  async createUnderParent(
-    parentId: string | number,
-    data: TCreateData
-  ): Promise<TResource> {
-    const path = this.buildNestedPath(parentId);
-    return this.client.postAndDeserialize<TResource>(
-      path,
-      this.type,
-      data as Record<string, unknown>
-    );
+  protected async runBulk<TInput, TResult>(
+    items: TInput[],
+    options: BulkOptions = {},
+    send: (chunk: TInput[], options: CallOptions) => Promise<TResult[]>
+  ): Promise<BulkResult<TResult, TInput>> {
+    const { chunkSize, ...callOptions } = options;
+    if (chunkSize !== undefined && chunkSize < 1) {
+      throw new Error('Bulk chunkSize must be at least 1');
+    }
+
+    const result: BulkResult<TResult, TInput> = { succeeded: [], failed: [] };
+    const size = chunkSize ?? items.length;
+
+    for (let start = 0; start < items.length; start += size) {
+      const chunk = items.slice(start, start + size);
+      try {
+        result.succeeded.push(...(await send(chunk, callOptions)));
+      } catch (error) {
+        if (error instanceof ITGlueAbortError) {
+          throw error;
+        }
+        chunk.forEach((item, offset) => {
+          result.failed.push({ index: start + offset, item, error: error as Error });
+        });
+      }
+    }
+
+    return result;
   }
+}
 
+/**
+ * Base class for resources whose endpoint accepts bulk update and delete
+ * IT Glue documents array PATCH and DELETE payloads only for these endpoints, so
+ * other resources keep the bulk methods protected and calling them fails to compile.
+ */
+export abstract class BulkResource<
+  TResource extends { type: string },
+  TListParams extends ListParams = ListParams,
+  TGetParams = Record<string, unknown>,
+  TCreateData = Record<string, unknown>,
+  TUpdateData = Record<string, unknown>
+> extends BaseResource<TResource, TListParams, TGetParams, TCreateData, TUpdateData> {
   /**
-   * Update a resource under a parent
+   * Update many resources, sent as JSON:API array payloads
+   *
+   * @example
+   * ```typescript
+   * const { succeeded, failed } = await client.configurations.bulkUpdate(
+   *   ids.map((id) => ({ id, archived: true }))
+   * );
+   * ```
    */
-  async updateUnderParent(
-    parentId: string | number,
-    id: string | number,
-    data: TUpdateData
-  ): Promise<TResource> {
-    const path = `${this.buildNestedPath(parentId)}/${id}`;
-    return this.client.patchAndDeserialize<TResource>(
-      path,
-      this.type,
-      String(id),
-      data as Record<string, unknown>
-    );
+  override bulkUpdate(
+    items: BulkUpdateItem<TUpdateData>[],
+    options?: BulkOptions
+  ): Promise<BulkResult<TResource, BulkUpdateItem<TUpdateData>>> {
+    return super.bulkUpdate(items, options);
   }
 
   /**
-   * Delete a resource under a parent
+   * Delete many resources by ID, sent as JSON:API array payloads
+   * Resolves with the IDs of the deleted resources.
    */
-  async deleteUnderParent(parentId: string | number, id: string | number): Promise<void> {
-    const path = `${this.buildNestedPath(parentId)}/${id}`;
-    await this.client.delete(path);
+  override bulkDestroy(
+    ids: (string | number)[],
+    options?: BulkOptions
+  ): Promise<BulkResult<string | number, string | number>> {
+    return super.bulkDestroy(ids, options);
   }
 }
@@ -22,17 +22,27 @@ import type {
   ConfigurationInterfaceListParams,
   ConfigurationInterfaceUpdateData,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  BulkResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Configurations resource
  */
-export class ConfigurationsResource extends BaseResource<
+export class ConfigurationsResource extends BulkResource<
   Configuration,
   ConfigurationListParams,
   ConfigurationGetParams,
@@ -52,12 +62,14 @@ export class ConfigurationsResource extends BaseResource<
    */
   async listByOrg(
     orgId: string | number,
-    params?: ConfigurationListParams
+    params?: ConfigurationListParams,
+    options?: CallOptions
   ): Promise<{ data: Configuration[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
     return this.client.list<Configuration>(
       `/organizations/${orgId}/relationships/configurations`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
@@ -66,21 +78,22 @@ export class ConfigurationsResource extends BaseResource<
    */
   listAllByOrg(
     orgId: string | number,
-    params?: Omit<ConfigurationListParams, 'page'>
-  ): AsyncIterableWithHelpers<Configuration> {
-    const baseParams = this.buildListParams(params as ConfigurationListParams);
-
-    return createPaginatedIterator<Configuration>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Configuration>(
-          `/organizations/${orgId}/relationships/configurations`,
-          queryParams
-        );
-        return response as PaginatedResponse<Configuration>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+    params?: Omit<ConfigurationListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Configuration> {
+    return this.listAllAt(`/organizations/${orgId}/relationships/configurations`, params, options);
+  }
+
+  /**
+   * List configurations for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<ConfigurationListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Configuration>> {
+    const path = `/organizations/${orgId}/relationships/configurations`;
+    return this.listPagesAt(path, params, options);
   }
 }
 
@@ -134,20 +147,10 @@ export class ConfigurationInterfacesResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: ConfigurationInterfaceListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -155,23 +158,54 @@ export class ConfigurationInterfacesResource {
    */
   async listByConfig(
     configId: string | number,
-    params?: ConfigurationInterfaceListParams
+    params?: ConfigurationInterfaceListParams,
+    options?: CallOptions
   ): Promise<{ data: ConfigurationInterface[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<ConfigurationInterface>(
       `/configurations/${configId}/relationships/configuration_interfaces`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all interfaces for a configuration with automatic pagination
+   */
+  listAllByConfig(
+    configId: string | number,
+    params?: Omit<ConfigurationInterfaceListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<ConfigurationInterface> {
+    const path = `/configurations/${configId}/relationships/configuration_interfaces`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List interfaces for a configuration page by page with automatic pagination
+   */
+  listPagesByConfig(
+    configId: string | number,
+    params?: Omit<ConfigurationInterfaceListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<ConfigurationInterface>> {
+    const path = `/configurations/${configId}/relationships/configuration_interfaces`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Create a configuration interface
    */
-  async create(data: ConfigurationInterfaceCreateData): Promise<ConfigurationInterface> {
+  async create(
+    data: ConfigurationInterfaceCreateData,
+    options?: CallOptions
+  ): Promise<ConfigurationInterface> {
     return this.client.postAndDeserialize<ConfigurationInterface>(
       '/configuration_interfaces',
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -180,20 +214,23 @@ export class ConfigurationInterfacesResource {
    */
   async update(
     id: string | number,
-    data: ConfigurationInterfaceUpdateData
+    data: ConfigurationInterfaceUpdateData,
+    options?: CallOptions
   ): Promise<ConfigurationInterface> {
     return this.client.patchAndDeserialize<ConfigurationInterface>(
       `/configuration_interfaces/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a configuration interface
    */
-  async delete(id: string | number): Promise<void> {
-    await this.client.delete(`/configuration_interfaces/${id}`);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/configuration_interfaces/${id}`, options);
   }
 }
@@ -14,16 +14,19 @@ import type {
   ContactTypeListParams,
   ContactTypeUpdateData,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { BaseResource, BulkResource } from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Contacts resource
  */
-export class ContactsResource extends BaseResource<
+export class ContactsResource extends BulkResource<
   Contact,
   ContactListParams,
   ContactGetParams,
@@ -43,12 +46,14 @@ export class ContactsResource extends BaseResource<
    */
   async listByOrg(
     orgId: string | number,
-    params?: ContactListParams
+    params?: ContactListParams,
+    options?: CallOptions
   ): Promise<{ data: Contact[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
     return this.client.list<Contact>(
       `/organizations/${orgId}/relationships/contacts`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
@@ -57,21 +62,21 @@ export class ContactsResource extends BaseResource<
    */
   listAllByOrg(
     orgId: string | number,
-    params?: Omit<ContactListParams, 'page'>
-  ): AsyncIterableWithHelpers<Contact> {
-    const baseParams = this.buildListParams(params as ContactListParams);
+    params?: Omit<ContactListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Contact> {
+    return this.listAllAt(`/organizations/${orgId}/relationships/contacts`, params, options);
+  }
 
-    return createPaginatedIterator<Contact>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Contact>(
-          `/organizations/${orgId}/relationships/contacts`,
-          queryParams
-        );
-        return response as PaginatedResponse<Contact>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+  /**
+   * List contacts for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<ContactListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Contact>> {
+    return this.listPagesAt(`/organizations/${orgId}/relationships/contacts`, params, options);
   }
 }
 
@@ -17,12 +17,21 @@ import type {
   DocumentImageCreateData,
   DocumentImageListParams,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Documents resource
@@ -47,12 +56,14 @@ export class DocumentsResource extends BaseResource<
    */
   async listByOrg(
     orgId: string | number,
-    params?: DocumentListParams
+    params?: DocumentListParams,
+    options?: CallOptions
   ): Promise<{ data: Document[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
     return this.client.list<Document>(
       `/organizations/${orgId}/relationships/documents`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
@@ -61,32 +72,34 @@ export class DocumentsResource extends BaseResource<
    */
   listAllByOrg(
     orgId: string | number,
-    params?: Omit<DocumentListParams, 'page'>
-  ): AsyncIterableWithHelpers<Document> {
-    const baseParams = this.buildListParams(params as DocumentListParams);
-
-    return createPaginatedIterator<Document>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Document>(
-          `/organizations/${orgId}/relationships/documents`,
-          queryParams
-        );
-        return response as PaginatedResponse<Document>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+    params?: Omit<DocumentListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Document> {
+    return this.listAllAt(`/organizations/${orgId}/relationships/documents`, params, options);
+  }
+
+  /**
+   * List documents for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<DocumentListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Document>> {
+    return this.listPagesAt(`/organizations/${orgId}/relationships/documents`, params, options);
   }
 
   /**
    * Publish a document
    */
-  async publish(id: string | number): Promise<Document> {
+  async publish(id: string | number, options?: CallOptions): Promise<Document> {
     return this.client.patchAndDeserialize<Document>(
       `${this.basePath}/${id}/publish`,
       this.type,
       String(id),
-      {}
+      {},
+      undefined,
+      options
     );
   }
 }
@@ -103,20 +116,10 @@ export class DocumentSectionsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: DocumentSectionListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -124,26 +127,54 @@ export class DocumentSectionsResource {
    */
   async listByDoc(
     docId: string | number,
-    params?: DocumentSectionListParams
+    params?: DocumentSectionListParams,
+    options?: CallOptions
   ): Promise<{ data: DocumentSection[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<DocumentSection>(
       `/documents/${docId}/relationships/sections`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all sections for a document with automatic pagination
+   */
+  listAllByDoc(
+    docId: string | number,
+    params?: Omit<DocumentSectionListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<DocumentSection> {
+    return paginateList(this.client, `/documents/${docId}/relationships/sections`, params, options);
+  }
+
+  /**
+   * List sections for a document page by page with automatic pagination
+   */
+  listPagesByDoc(
+    docId: string | number,
+    params?: Omit<DocumentSectionListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<DocumentSection>> {
+    const path = `/documents/${docId}/relationships/sections`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Create a document section
    */
   async create(
     docId: string | number,
-    data: DocumentSectionCreateData
+    data: DocumentSectionCreateData,
+    options?: CallOptions
   ): Promise<DocumentSection> {
     return this.client.postAndDeserialize<DocumentSection>(
       `/documents/${docId}/relationships/sections`,
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -153,21 +184,24 @@ export class DocumentSectionsResource {
   async update(
     docId: string | number,
     id: string | number,
-    data: DocumentSectionUpdateData
+    data: DocumentSectionUpdateData,
+    options?: CallOptions
   ): Promise<DocumentSection> {
     return this.client.patchAndDeserialize<DocumentSection>(
       `/documents/${docId}/relationships/sections/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a document section
    */
-  async delete(docId: string | number, id: string | number): Promise<void> {
-    await this.client.delete(`/documents/${docId}/relationships/sections/${id}`);
+  async delete(docId: string | number, id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/documents/${docId}/relationships/sections/${id}`, options);
   }
 }
 
@@ -183,47 +217,40 @@ export class DocumentImagesResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: DocumentImageListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * List document images
    */
   async list(
-    params?: DocumentImageListParams
+    params?: DocumentImageListParams,
+    options?: CallOptions
   ): Promise<{ data: DocumentImage[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
-    return this.client.list<DocumentImage>('/document_images', queryParams);
+    const queryParams = buildListParams(params);
+    return this.client.list<DocumentImage>('/document_images', queryParams, options);
   }
 
   /**
    * Create a document image
    */
-  async create(data: DocumentImageCreateData): Promise<DocumentImage> {
+  async create(data: DocumentImageCreateData, options?: CallOptions): Promise<DocumentImage> {
     return this.client.postAndDeserialize<DocumentImage>(
       '/document_images',
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a document image
    */
-  async delete(id: string | number): Promise<void> {
-    await this.client.delete(`/document_images/${id}`);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/document_images/${id}`, options);
   }
 }
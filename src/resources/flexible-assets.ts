@@ -19,12 +19,23 @@ import type {
   FlexibleAssetListParams,
   FlexibleAssetUpdateData,
   AsyncIterableWithHelpers,
-  PaginationMeta,
+  CallOptions,
+  PaginatedIterable,
   PaginatedResponse,
+  PaginationMeta,
+  ResponseView,
+  ResumableParams,
+  WithFields,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  BulkResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Flexible Asset Types resource
@@ -57,20 +68,10 @@ export class FlexibleAssetFieldsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: FlexibleAssetFieldListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -78,23 +79,54 @@ export class FlexibleAssetFieldsResource {
    */
   async listByType(
     typeId: string | number,
-    params?: FlexibleAssetFieldListParams
+    params?: FlexibleAssetFieldListParams,
+    options?: CallOptions
   ): Promise<{ data: FlexibleAssetField[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<FlexibleAssetField>(
       `/flexible_asset_types/${typeId}/relationships/flexible_asset_fields`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all fields for a flexible asset type with automatic pagination
+   */
+  listAllByType(
+    typeId: string | number,
+    params?: Omit<FlexibleAssetFieldListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<FlexibleAssetField> {
+    const path = `/flexible_asset_types/${typeId}/relationships/flexible_asset_fields`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List fields for a flexible asset type page by page with automatic pagination
+   */
+  listPagesByType(
+    typeId: string | number,
+    params?: Omit<FlexibleAssetFieldListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<FlexibleAssetField>> {
+    const path = `/flexible_asset_types/${typeId}/relationships/flexible_asset_fields`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Create a flexible asset field
    */
-  async create(data: FlexibleAssetFieldCreateData): Promise<FlexibleAssetField> {
+  async create(
+    data: FlexibleAssetFieldCreateData,
+    options?: CallOptions
+  ): Promise<FlexibleAssetField> {
     return this.client.postAndDeserialize<FlexibleAssetField>(
       '/flexible_asset_fields',
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -103,28 +135,31 @@ export class FlexibleAssetFieldsResource {
    */
   async update(
     id: string | number,
-    data: FlexibleAssetFieldUpdateData
+    data: FlexibleAssetFieldUpdateData,
+    options?: CallOptions
   ): Promise<FlexibleAssetField> {
     return this.client.patchAndDeserialize<FlexibleAssetField>(
       `/flexible_asset_fields/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a flexible asset field
    */
-  async delete(id: string | number): Promise<void> {
-    await this.client.delete(`/flexible_asset_fields/${id}`);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/flexible_asset_fields/${id}`, options);
   }
 }
 
 /**
  * Flexible Assets resource
  */
-export class FlexibleAssetsResource extends BaseResource<
+export class FlexibleAssetsResource extends BulkResource<
   FlexibleAsset,
   FlexibleAssetListParams,
   FlexibleAssetGetParams,
@@ -142,27 +177,20 @@ export class FlexibleAssetsResource extends BaseResource<
   /**
    * List flexible assets (requires filter.flexibleAssetTypeId)
    */
-  override async list(
-    params: FlexibleAssetListParams
-  ): Promise<{ data: FlexibleAsset[]; meta: PaginationMeta }> {
-    return super.list(params);
+  override async list<P extends FlexibleAssetListParams>(
+    params: P | undefined,
+    options?: CallOptions
+  ): Promise<{ data: WithFields<FlexibleAsset, P>[]; meta: PaginationMeta }> {
+    return super.list(params, options);
   }
 
   /**
    * List all flexible assets with automatic pagination
    */
-  override listAll(
-    params: Omit<FlexibleAssetListParams, 'page'>
-  ): AsyncIterableWithHelpers<FlexibleAsset> {
-    const baseParams = this.buildListParams(params as FlexibleAssetListParams);
-
-    return createPaginatedIterator<FlexibleAsset>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<FlexibleAsset>(this.basePath, queryParams);
-        return response as PaginatedResponse<FlexibleAsset>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+  override listAll<P extends Omit<FlexibleAssetListParams, 'page'>>(
+    params: (P & ResumableParams) | undefined,
+    options?: ListAllOptions
+  ): PaginatedIterable<WithFields<FlexibleAsset, P>> {
+    return super.listAll(params, options);
   }
 }
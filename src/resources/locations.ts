@@ -10,16 +10,19 @@ import type {
   LocationListParams,
   LocationUpdateData,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
+import { BulkResource } from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Locations resource
  */
-export class LocationsResource extends BaseResource<
+export class LocationsResource extends BulkResource<
   Location,
   LocationListParams,
   LocationGetParams,
@@ -39,12 +42,14 @@ export class LocationsResource extends BaseResource<
    */
   async listByOrg(
     orgId: string | number,
-    params?: LocationListParams
+    params?: LocationListParams,
+    options?: CallOptions
   ): Promise<{ data: Location[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
     return this.client.list<Location>(
       `/organizations/${orgId}/relationships/locations`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
@@ -53,20 +58,20 @@ export class LocationsResource extends BaseResource<
    */
   listAllByOrg(
     orgId: string | number,
-    params?: Omit<LocationListParams, 'page'>
-  ): AsyncIterableWithHelpers<Location> {
-    const baseParams = this.buildListParams(params as LocationListParams);
+    params?: Omit<LocationListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Location> {
+    return this.listAllAt(`/organizations/${orgId}/relationships/locations`, params, options);
+  }
 
-    return createPaginatedIterator<Location>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Location>(
-          `/organizations/${orgId}/relationships/locations`,
-          queryParams
-        );
-        return response as PaginatedResponse<Location>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+  /**
+   * List locations for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<LocationListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Location>> {
+    return this.listPagesAt(`/organizations/${orgId}/relationships/locations`, params, options);
   }
 }
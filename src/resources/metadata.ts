@@ -23,10 +23,22 @@ import type {
   CountryListParams,
   Region,
   RegionListParams,
+  AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
+  PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Manufacturers resource
@@ -64,20 +76,10 @@ export class ModelsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: ModelListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -85,35 +87,65 @@ export class ModelsResource {
    */
   async listByManufacturer(
     mfgId: string | number,
-    params?: ModelListParams
+    params?: ModelListParams,
+    options?: CallOptions
   ): Promise<{ data: Model[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<Model>(
       `/manufacturers/${mfgId}/relationships/models`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all models for a manufacturer with automatic pagination
+   */
+  listAllByManufacturer(
+    mfgId: string | number,
+    params?: Omit<ModelListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Model> {
+    const path = `/manufacturers/${mfgId}/relationships/models`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List models for a manufacturer page by page with automatic pagination
+   */
+  listPagesByManufacturer(
+    mfgId: string | number,
+    params?: Omit<ModelListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Model>> {
+    const path = `/manufacturers/${mfgId}/relationships/models`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Create a model
    */
-  async create(data: ModelCreateData): Promise<Model> {
+  async create(data: ModelCreateData, options?: CallOptions): Promise<Model> {
     return this.client.postAndDeserialize<Model>(
       '/models',
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Update a model
    */
-  async update(id: string | number, data: ModelUpdateData): Promise<Model> {
+  async update(id: string | number, data: ModelUpdateData, options?: CallOptions): Promise<Model> {
     return this.client.patchAndDeserialize<Model>(
       `/models/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 }
@@ -129,30 +161,21 @@ export class PlatformsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: PlatformListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * List platforms
    */
   async list(
-    params?: PlatformListParams
+    params?: PlatformListParams,
+    options?: CallOptions
   ): Promise<{ data: Platform[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
-    return this.client.list<Platform>('/platforms', queryParams);
+    const queryParams = buildListParams(params);
+    return this.client.list<Platform>('/platforms', queryParams, options);
   }
 }
 
@@ -167,30 +190,21 @@ export class OperatingSystemsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: OperatingSystemListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * List operating systems
    */
   async list(
-    params?: OperatingSystemListParams
+    params?: OperatingSystemListParams,
+    options?: CallOptions
   ): Promise<{ data: OperatingSystem[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
-    return this.client.list<OperatingSystem>('/operating_systems', queryParams);
+    const queryParams = buildListParams(params);
+    return this.client.list<OperatingSystem>('/operating_systems', queryParams, options);
   }
 }
 
@@ -239,20 +253,10 @@ export class RegionsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: RegionListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -260,12 +264,38 @@ export class RegionsResource {
    */
   async listByCountry(
     countryId: string | number,
-    params?: RegionListParams
+    params?: RegionListParams,
+    options?: CallOptions
   ): Promise<{ data: Region[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<Region>(
       `/countries/${countryId}/relationships/regions`,
-      queryParams
+      queryParams,
+      options
     );
   }
+
+  /**
+   * List all regions for a country with automatic pagination
+   */
+  listAllByCountry(
+    countryId: string | number,
+    params?: Omit<RegionListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Region> {
+    const path = `/countries/${countryId}/relationships/regions`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List regions for a country page by page with automatic pagination
+   */
+  listPagesByCountry(
+    countryId: string | number,
+    params?: Omit<RegionListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Region>> {
+    const path = `/countries/${countryId}/relationships/regions`;
+    return paginatePages(this.client, path, params, options);
+  }
 }
@@ -30,12 +30,21 @@ import type {
   ChecklistListParams,
   ChecklistUpdateData,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Domains resource (read-only, nested under organizations)
@@ -48,20 +57,10 @@ export class DomainsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: DomainListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -69,14 +68,40 @@ export class DomainsResource {
    */
   async listByOrg(
     orgId: string | number,
-    params?: DomainListParams
+    params?: DomainListParams,
+    options?: CallOptions
   ): Promise<{ data: Domain[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<Domain>(
       `/organizations/${orgId}/relationships/domains`,
-      queryParams
+      queryParams,
+      options
     );
   }
+
+  /**
+   * List all domains for an organization with automatic pagination
+   */
+  listAllByOrg(
+    orgId: string | number,
+    params?: Omit<DomainListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Domain> {
+    const path = `/organizations/${orgId}/relationships/domains`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List domains for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<DomainListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Domain>> {
+    const path = `/organizations/${orgId}/relationships/domains`;
+    return paginatePages(this.client, path, params, options);
+  }
 }
 
 /**
@@ -124,48 +149,41 @@ export class LogsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: LogListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * List logs
    */
   async list(
-    params?: LogListParams
+    params?: LogListParams,
+    options?: CallOptions
   ): Promise<{ data: Log[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
-    return this.client.list<Log>('/logs', queryParams);
+    const queryParams = buildListParams(params);
+    return this.client.list<Log>('/logs', queryParams, options);
   }
 
   /**
    * List all logs with automatic pagination
    */
   listAll(
-    params?: Omit<LogListParams, 'page'>
-  ): AsyncIterableWithHelpers<Log> {
-    const baseParams = this.buildListParams(params as LogListParams);
-
-    return createPaginatedIterator<Log>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Log>('/logs', queryParams);
-        return response as PaginatedResponse<Log>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+    params?: Omit<LogListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Log> {
+    return paginateList(this.client, '/logs', params, options);
+  }
+
+  /**
+   * List logs page by page with automatic pagination
+   */
+  listPages(
+    params?: Omit<LogListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Log>> {
+    return paginatePages(this.client, '/logs', params, options);
   }
 }
 
@@ -181,20 +199,10 @@ export class AttachmentsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: AttachmentListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -210,27 +218,56 @@ export class AttachmentsResource {
   async list(
     resourceType: AttachmentResourceType,
     resourceId: string | number,
-    params?: AttachmentListParams
+    params?: AttachmentListParams,
+    options?: CallOptions
   ): Promise<{ data: Attachment[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<Attachment>(
       this.buildPath(resourceType, resourceId),
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all attachments for a resource with automatic pagination
+   */
+  listAll(
+    resourceType: AttachmentResourceType,
+    resourceId: string | number,
+    params?: Omit<AttachmentListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Attachment> {
+    return paginateList(this.client, this.buildPath(resourceType, resourceId), params, options);
+  }
+
+  /**
+   * List attachments for a resource page by page with automatic pagination
+   */
+  listPages(
+    resourceType: AttachmentResourceType,
+    resourceId: string | number,
+    params?: Omit<AttachmentListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Attachment>> {
+    return paginatePages(this.client, this.buildPath(resourceType, resourceId), params, options);
+  }
+
   /**
    * Create an attachment for a resource
    */
   async create(
     resourceType: AttachmentResourceType,
     resourceId: string | number,
-    data: AttachmentCreateData
+    data: AttachmentCreateData,
+    options?: CallOptions
   ): Promise<Attachment> {
     return this.client.postAndDeserialize<Attachment>(
       this.buildPath(resourceType, resourceId),
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -241,13 +278,16 @@ export class AttachmentsResource {
     resourceType: AttachmentResourceType,
     resourceId: string | number,
     id: string | number,
-    data: AttachmentUpdateData
+    data: AttachmentUpdateData,
+    options?: CallOptions
   ): Promise<Attachment> {
     return this.client.patchAndDeserialize<Attachment>(
       `${this.buildPath(resourceType, resourceId)}/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -257,9 +297,10 @@ export class AttachmentsResource {
   async delete(
     resourceType: AttachmentResourceType,
     resourceId: string | number,
-    id: string | number
+    id: string | number,
+    options?: CallOptions
   ): Promise<void> {
-    await this.client.delete(`${this.buildPath(resourceType, resourceId)}/${id}`);
+    await this.client.delete(`${this.buildPath(resourceType, resourceId)}/${id}`, options);
   }
 }
 
@@ -274,6 +315,13 @@ export class RelatedItemsResource {
     this.client = client;
   }
 
+  /**
+   * Call this resource's methods with the HTTP response attached to each result
+   */
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
+  }
+
   /**
    * Build the path for related items under a resource
    */
@@ -287,12 +335,15 @@ export class RelatedItemsResource {
   async create(
     resourceType: RelatedItemResourceType,
     resourceId: string | number,
-    data: RelatedItemCreateData
+    data: RelatedItemCreateData,
+    options?: CallOptions
   ): Promise<RelatedItem> {
     return this.client.postAndDeserialize<RelatedItem>(
       this.buildPath(resourceType, resourceId),
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -303,13 +354,16 @@ export class RelatedItemsResource {
     resourceType: RelatedItemResourceType,
     resourceId: string | number,
     id: string | number,
-    data: RelatedItemUpdateData
+    data: RelatedItemUpdateData,
+    options?: CallOptions
   ): Promise<RelatedItem> {
     return this.client.patchAndDeserialize<RelatedItem>(
       `${this.buildPath(resourceType, resourceId)}/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -319,9 +373,10 @@ export class RelatedItemsResource {
   async delete(
     resourceType: RelatedItemResourceType,
     resourceId: string | number,
-    id: string | number
+    id: string | number,
+    options?: CallOptions
   ): Promise<void> {
-    await this.client.delete(`${this.buildPath(resourceType, resourceId)}/${id}`);
+    await this.client.delete(`${this.buildPath(resourceType, resourceId)}/${id}`, options);
   }
 }
 
@@ -361,20 +416,10 @@ export class ChecklistsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: ChecklistListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -390,39 +435,75 @@ export class ChecklistsResource {
    */
   async listByOrg(
     orgId: string | number,
-    params?: ChecklistListParams
+    params?: ChecklistListParams,
+    options?: CallOptions
   ): Promise<{ data: Checklist[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<Checklist>(
       `/organizations/${orgId}/relationships/checklists`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all checklists for an organization with automatic pagination
+   */
+  listAllByOrg(
+    orgId: string | number,
+    params?: Omit<ChecklistListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Checklist> {
+    const path = `/organizations/${orgId}/relationships/checklists`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List checklists for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<ChecklistListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Checklist>> {
+    const path = `/organizations/${orgId}/relationships/checklists`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Get a single checklist
    */
-  async get(id: string | number, params?: ChecklistGetParams): Promise<Checklist> {
+  async get(
+    id: string | number,
+    params?: ChecklistGetParams,
+    options?: CallOptions
+  ): Promise<Checklist> {
     const queryParams = this.buildGetParams(params);
-    return this.client.getOne<Checklist>(`/checklists/${id}`, queryParams);
+    return this.client.getOne<Checklist>(`/checklists/${id}`, queryParams, options);
   }
 
   /**
    * Update a checklist
    */
-  async update(id: string | number, data: ChecklistUpdateData): Promise<Checklist> {
+  async update(
+    id: string | number,
+    data: ChecklistUpdateData,
+    options?: CallOptions
+  ): Promise<Checklist> {
     return this.client.patchAndDeserialize<Checklist>(
       `/checklists/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a checklist
    */
-  async delete(id: string | number): Promise<void> {
-    await this.client.delete(`/checklists/${id}`);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/checklists/${id}`, options);
   }
 }
@@ -17,16 +17,20 @@ import type {
   OrganizationStatusCreateData,
   OrganizationStatusListParams,
   OrganizationStatusUpdateData,
-  AsyncIterableWithHelpers,
+  CallOptions,
+  PaginatedIterable,
   PaginationMeta,
+  ResumableParams,
+  WithFields,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
+import { BaseResource, BulkResource } from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Organizations resource
  * Provides CRUD operations for IT Glue organizations
  */
-export class OrganizationsResource extends BaseResource<
+export class OrganizationsResource extends BulkResource<
   Organization,
   OrganizationListParams,
   OrganizationGetParams,
@@ -53,10 +57,11 @@ export class OrganizationsResource extends BaseResource<
    * });
    * ```
    */
-  async list(
-    params?: OrganizationListParams
-  ): Promise<{ data: Organization[]; meta: PaginationMeta }> {
-    return super.list(params);
+  async list<P extends OrganizationListParams>(
+    params?: P,
+    options?: CallOptions
+  ): Promise<{ data: WithFields<Organization, P>[]; meta: PaginationMeta }> {
+    return super.list(params, options);
   }
 
   /**
@@ -73,10 +78,11 @@ export class OrganizationsResource extends BaseResource<
    * const allOrgs = await client.organizations.listAll().toArray();
    * ```
    */
-  listAll(
-    params?: Omit<OrganizationListParams, 'page'>
-  ): AsyncIterableWithHelpers<Organization> {
-    return super.listAll(params);
+  listAll<P extends Omit<OrganizationListParams, 'page'>>(
+    params?: P & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<WithFields<Organization, P>> {
+    return super.listAll(params, options);
   }
 
   /**
@@ -88,8 +94,12 @@ export class OrganizationsResource extends BaseResource<
    * console.log(org.name);
    * ```
    */
-  async get(id: string | number, params?: OrganizationGetParams): Promise<Organization> {
-    return super.get(id, params);
+  async get<P extends OrganizationGetParams>(
+    id: string | number,
+    params?: P,
+    options?: CallOptions
+  ): Promise<WithFields<Organization, P>> {
+    return super.get(id, params, options);
   }
 
   /**
@@ -104,8 +114,8 @@ export class OrganizationsResource extends BaseResource<
    * });
    * ```
    */
-  async create(data: OrganizationCreateData): Promise<Organization> {
-    return super.create(data);
+  async create(data: OrganizationCreateData, options?: CallOptions): Promise<Organization> {
+    return super.create(data, options);
   }
 
   /**
@@ -119,8 +129,12 @@ export class OrganizationsResource extends BaseResource<
    * });
    * ```
    */
-  async update(id: string | number, data: OrganizationUpdateData): Promise<Organization> {
-    return super.update(id, data);
+  async update(
+    id: string | number,
+    data: OrganizationUpdateData,
+    options?: CallOptions
+  ): Promise<Organization> {
+    return super.update(id, data, options);
   }
 
   /**
@@ -131,8 +145,8 @@ export class OrganizationsResource extends BaseResource<
    * await client.organizations.delete('12345');
    * ```
    */
-  async delete(id: string | number): Promise<void> {
-    return super.delete(id);
+  async delete(id: string | number, options?: CallOptions): Promise<void> {
+    return super.delete(id, options);
   }
 }
 
@@ -157,26 +171,28 @@ export class OrganizationTypesResource extends BaseResource<
   /**
    * List organization types
    */
-  async list(
-    params?: OrganizationTypeListParams
-  ): Promise<{ data: OrganizationType[]; meta: PaginationMeta }> {
-    return super.list(params);
+  async list<P extends OrganizationTypeListParams>(
+    params?: P,
+    options?: CallOptions
+  ): Promise<{ data: WithFields<OrganizationType, P>[]; meta: PaginationMeta }> {
+    return super.list(params, options);
   }
 
   /**
    * List all organization types with automatic pagination
    */
-  listAll(
-    params?: Omit<OrganizationTypeListParams, 'page'>
-  ): AsyncIterableWithHelpers<OrganizationType> {
-    return super.listAll(params);
+  listAll<P extends Omit<OrganizationTypeListParams, 'page'>>(
+    params?: P & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<WithFields<OrganizationType, P>> {
+    return super.listAll(params, options);
   }
 
   /**
    * Create an organization type
    */
-  async create(data: OrganizationTypeCreateData): Promise<OrganizationType> {
-    return super.create(data);
+  async create(data: OrganizationTypeCreateData, options?: CallOptions): Promise<OrganizationType> {
+    return super.create(data, options);
   }
 
   /**
@@ -184,9 +200,10 @@ export class OrganizationTypesResource extends BaseResource<
    */
   async update(
     id: string | number,
-    data: OrganizationTypeUpdateData
+    data: OrganizationTypeUpdateData,
+    options?: CallOptions
   ): Promise<OrganizationType> {
-    return super.update(id, data);
+    return super.update(id, data, options);
   }
 }
 
@@ -211,26 +228,28 @@ export class OrganizationStatusesResource extends BaseResource<
   /**
    * List organization statuses
    */
-  async list(
-    params?: OrganizationStatusListParams
-  ): Promise<{ data: OrganizationStatus[]; meta: PaginationMeta }> {
-    return super.list(params);
+  async list<P extends OrganizationStatusListParams>(
+    params?: P,
+    options?: CallOptions
+  ): Promise<{ data: WithFields<OrganizationStatus, P>[]; meta: PaginationMeta }> {
+    return super.list(params, options);
   }
 
   /**
    * List all organization statuses with automatic pagination
    */
-  listAll(
-    params?: Omit<OrganizationStatusListParams, 'page'>
-  ): AsyncIterableWithHelpers<OrganizationStatus> {
-    return super.listAll(params);
+  listAll<P extends Omit<OrganizationStatusListParams, 'page'>>(
+    params?: P & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<WithFields<OrganizationStatus, P>> {
+    return super.listAll(params, options);
   }
 
   /**
    * Create an organization status
    */
-  async create(data: OrganizationStatusCreateData): Promise<OrganizationStatus> {
-    return super.create(data);
+  async create(data: OrganizationStatusCreateData, options?: CallOptions): Promise<OrganizationStatus> {
+    return super.create(data, options);
   }
 
   /**
@@ -238,8 +257,9 @@ export class OrganizationStatusesResource extends BaseResource<
    */
   async update(
     id: string | number,
-    data: OrganizationStatusUpdateData
+    data: OrganizationStatusUpdateData,
+    options?: CallOptions
   ): Promise<OrganizationStatus> {
-    return super.update(id, data);
+    return super.update(id, data, options);
   }
 }
@@ -18,17 +18,27 @@ import type {
   PasswordFolderListParams,
   PasswordFolderUpdateData,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  BulkResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Passwords resource
  */
-export class PasswordsResource extends BaseResource<
+export class PasswordsResource extends BulkResource<
   Password,
   PasswordListParams,
   PasswordGetParams,
@@ -70,12 +80,14 @@ export class PasswordsResource extends BaseResource<
    */
   async listByOrg(
     orgId: string | number,
-    params?: PasswordListParams
+    params?: PasswordListParams,
+    options?: CallOptions
   ): Promise<{ data: Password[]; meta: PaginationMeta }> {
     const queryParams = this.buildListParams(params);
     return this.client.list<Password>(
       `/organizations/${orgId}/relationships/passwords`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
@@ -84,21 +96,21 @@ export class PasswordsResource extends BaseResource<
    */
   listAllByOrg(
     orgId: string | number,
-    params?: Omit<PasswordListParams, 'page'>
-  ): AsyncIterableWithHelpers<Password> {
-    const baseParams = this.buildListParams(params as PasswordListParams);
-
-    return createPaginatedIterator<Password>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<Password>(
-          `/organizations/${orgId}/relationships/passwords`,
-          queryParams
-        );
-        return response as PaginatedResponse<Password>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+    params?: Omit<PasswordListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<Password> {
+    return this.listAllAt(`/organizations/${orgId}/relationships/passwords`, params, options);
+  }
+
+  /**
+   * List passwords for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<PasswordListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<Password>> {
+    return this.listPagesAt(`/organizations/${orgId}/relationships/passwords`, params, options);
   }
 }
 
@@ -133,20 +145,10 @@ export class PasswordFoldersResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params?: PasswordFolderListParams): Record<string, unknown> {
-    if (!params) return {};
-
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
@@ -154,26 +156,55 @@ export class PasswordFoldersResource {
    */
   async listByOrg(
     orgId: string | number,
-    params?: PasswordFolderListParams
+    params?: PasswordFolderListParams,
+    options?: CallOptions
   ): Promise<{ data: PasswordFolder[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
+    const queryParams = buildListParams(params);
     return this.client.list<PasswordFolder>(
       `/organizations/${orgId}/relationships/password_folders`,
-      queryParams
+      queryParams,
+      options
     );
   }
 
+  /**
+   * List all password folders for an organization with automatic pagination
+   */
+  listAllByOrg(
+    orgId: string | number,
+    params?: Omit<PasswordFolderListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<PasswordFolder> {
+    const path = `/organizations/${orgId}/relationships/password_folders`;
+    return paginateList(this.client, path, params, options);
+  }
+
+  /**
+   * List password folders for an organization page by page with automatic pagination
+   */
+  listPagesByOrg(
+    orgId: string | number,
+    params?: Omit<PasswordFolderListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<PasswordFolder>> {
+    const path = `/organizations/${orgId}/relationships/password_folders`;
+    return paginatePages(this.client, path, params, options);
+  }
+
   /**
    * Create a password folder
    */
   async create(
     orgId: string | number,
-    data: PasswordFolderCreateData
+    data: PasswordFolderCreateData,
+    options?: CallOptions
   ): Promise<PasswordFolder> {
     return this.client.postAndDeserialize<PasswordFolder>(
       `/organizations/${orgId}/relationships/password_folders`,
       this.type,
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
@@ -183,20 +214,23 @@ export class PasswordFoldersResource {
   async update(
     orgId: string | number,
     id: string | number,
-    data: PasswordFolderUpdateData
+    data: PasswordFolderUpdateData,
+    options?: CallOptions
   ): Promise<PasswordFolder> {
     return this.client.patchAndDeserialize<PasswordFolder>(
       `/organizations/${orgId}/relationships/password_folders/${id}`,
       this.type,
       String(id),
-      data as unknown as Record<string, unknown>
+      data as unknown as Record<string, unknown>,
+      undefined,
+      options
     );
   }
 
   /**
    * Delete a password folder
    */
-  async delete(orgId: string | number, id: string | number): Promise<void> {
-    await this.client.delete(`/organizations/${orgId}/relationships/password_folders/${id}`);
+  async delete(orgId: string | number, id: string | number, options?: CallOptions): Promise<void> {
+    await this.client.delete(`/organizations/${orgId}/relationships/password_folders/${id}`, options);
   }
 }
@@ -16,13 +16,25 @@ import type {
   GroupGetParams,
   GroupListParams,
   GroupUpdateData,
+  BulkOptions,
+  BulkResult,
+  BulkUpdateItem,
   AsyncIterableWithHelpers,
+  CallOptions,
   PaginationMeta,
+  PaginatedIterable,
   PaginatedResponse,
+  ResponseView,
+  ResumableParams,
 } from '../types/index.js';
-import { BaseResource } from './base.js';
-import { createPaginatedIterator, DEFAULT_PAGE_SIZE } from '../pagination.js';
-import { buildFilterParams } from '../jsonapi.js';
+import {
+  BaseResource,
+  buildListParams,
+  createResponseView,
+  paginateList,
+  paginatePages,
+} from './base.js';
+import type { ListAllOptions } from '../pagination.js';
 
 /**
  * Users resource
@@ -54,20 +66,28 @@ export class UsersResource extends BaseResource<
 
   /**
    * Bulk update users
+   * The legacy `{ data: [...] }` payload is still accepted; it resolves to the
+   * updated users and rejects with the first failure.
    */
-  async bulkUpdate(data: UserBulkUpdateData): Promise<User[]> {
-    const response = await this.client.patch<{ data: { id: string; type: string; attributes: Record<string, unknown> }[] }>(
-      '/users',
-      'users',
-      '0',
-      data as unknown as Record<string, unknown>
-    );
-    // Manual deserialization for bulk response
-    return response.data.map((item) => ({
-      id: item.id,
-      type: 'users',
-      ...item.attributes,
-    } as User));
+  override bulkUpdate(
+    items: BulkUpdateItem<UserUpdateData>[],
+    options?: BulkOptions
+  ): Promise<BulkResult<User, BulkUpdateItem<UserUpdateData>>>;
+  override bulkUpdate(data: UserBulkUpdateData, options?: CallOptions): Promise<User[]>;
+  override async bulkUpdate(
+    input: BulkUpdateItem<UserUpdateData>[] | UserBulkUpdateData,
+    options?: BulkOptions
+  ): Promise<BulkResult<User, BulkUpdateItem<UserUpdateData>> | User[]> {
+    if (Array.isArray(input)) {
+      return super.bulkUpdate(input, options);
+    }
+
+    const items = input.data.map((item) => ({ id: item.id, ...item.attributes }));
+    const result = await super.bulkUpdate(items, options);
+    if (result.failed.length > 0) {
+      throw result.failed[0].error;
+    }
+    return result.succeeded;
   }
 }
 
@@ -82,46 +102,41 @@ export class UserMetricsResource {
   }
 
   /**
-   * Build query parameters for a list request
+   * Call this resource's methods with the HTTP response attached to each result
    */
-  private buildListParams(params: UserMetricListParams): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    if (params.filter) {
-      result.filter = buildFilterParams(params.filter as unknown as Record<string, unknown>);
-    }
-    if (params.page) result.page = params.page;
-    if (params.sort) result.sort = params.sort;
-    if (params.include) result.include = params.include;
-
-    return result;
+  withResponse(): ResponseView<this> {
+    return createResponseView(this, this.client);
   }
 
   /**
    * List user metrics (requires filter.userId and filter.date)
    */
   async list(
-    params: UserMetricListParams
+    params: UserMetricListParams,
+    options?: CallOptions
   ): Promise<{ data: UserMetric[]; meta: PaginationMeta }> {
-    const queryParams = this.buildListParams(params);
-    return this.client.list<UserMetric>('/user_metrics', queryParams);
+    const queryParams = buildListParams(params);
+    return this.client.list<UserMetric>('/user_metrics', queryParams, options);
   }
 
   /**
    * List all user metrics with automatic pagination
    */
   listAll(
-    params: Omit<UserMetricListParams, 'page'>
-  ): AsyncIterableWithHelpers<UserMetric> {
-    const baseParams = this.buildListParams(params as UserMetricListParams);
+    params: Omit<UserMetricListParams, 'page'> & ResumableParams,
+    options?: ListAllOptions
+  ): PaginatedIterable<UserMetric> {
+    return paginateList(this.client, '/user_metrics', params, options);
+  }
 
-    return createPaginatedIterator<UserMetric>(
-      async (page) => {
-        const queryParams = { ...baseParams, page };
-        const response = await this.client.list<UserMetric>('/user_metrics', queryParams);
-        return response as PaginatedResponse<UserMetric>;
-      },
-      { pageSize: DEFAULT_PAGE_SIZE }
-    );
+  /**
+   * List user metrics page by page with automatic pagination
+   */
+  listPages(
+    params: Omit<UserMetricListParams, 'page'>,
+    options?: ListAllOptions
+  ): AsyncIterableWithHelpers<PaginatedResponse<UserMetric>> {
+    return paginatePages(this.client, '/user_metrics', params, options);
   }
 }
 
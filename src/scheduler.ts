@@ -0,0 +1,131 @@
+/**
+ * Request scheduler for IT Glue API calls
+ * Bounds the number of in-flight requests and serves queued work by priority
+ */
+
+import type { RequestPriority, SchedulerConfig } from './types/index.js';
+
+/**
+ * Priority lanes, highest first
+ */
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = [
+  'interactive',
+  'normal',
+  'background',
+];
+
+/**
+ * A queued unit of work
+ */
+interface QueuedTask {
+  start: () => void;
+}
+
+/**
+ * Scheduler that limits concurrency and dispatches queued work by priority
+ * Work within a lane runs in FIFO order.
+ */
+export class RequestScheduler {
+  private readonly config: SchedulerConfig;
+  private readonly lanes: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+  private active = 0;
+
+  constructor(config: SchedulerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Run a task once a slot is free
+   * Aborting the signal while the task is queued removes it from its lane.
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const lane = this.lanes[priority];
+      const onAbort = (): void => {
+        const index = lane.indexOf(queued);
+        if (index !== -1) {
+          lane.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const queued: QueuedTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          // Release the slot before settling so the next task is already running
+          task()
+            .finally(() => {
+              this.active--;
+              this.drain();
+            })
+            .then(resolve, reject);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.push(queued);
+      this.drain();
+    });
+  }
+
+  /**
+   * Start queued tasks while slots are available
+   */
+  private drain(): void {
+    while (this.active < this.config.maxConcurrency) {
+      const next = this.dequeue();
+      if (!next) {
+        return;
+      }
+      next.start();
+    }
+  }
+
+  /**
+   * Take the next task from the highest-priority non-empty lane
+   */
+  private dequeue(): QueuedTask | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      const task = this.lanes[priority].shift();
+      if (task) {
+        return task;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get scheduler status for debugging/monitoring
+   */
+  getStatus(): {
+    maxConcurrency: number;
+    active: number;
+    queued: number;
+    lanes: Record<RequestPriority, number>;
+  } {
+    const lanes = {
+      interactive: this.lanes.interactive.length,
+      normal: this.lanes.normal.length,
+      background: this.lanes.background.length,
+    };
+    return {
+      maxConcurrency: this.config.maxConcurrency,
+      active: this.active,
+      queued: lanes.interactive + lanes.normal + lanes.background,
+      lanes,
+    };
+  }
+}
@@ -2,6 +2,8 @@
  * Common types shared across all IT Glue resources
  */
 
+import type { Dispatcher } from 'undici';
+
 /**
  * IT Glue region identifiers
  */
@@ -16,6 +18,43 @@ export const REGION_URLS: Record<ITGlueRegion, string> = {
   au: 'https://api.au.itglue.com',
 };
 
+/**
+ * Result of a rate limit slot reservation
+ */
+export interface RateLimitReservation {
+  /** Whether the slot was granted and recorded */
+  granted: boolean;
+  /** Request timestamps in the window after the operation, oldest first */
+  timestamps: number[];
+}
+
+/**
+ * Storage for request timestamps in the rate limit window
+ *
+ * Share one store between clients (or processes, with a shared backend) that
+ * use the same API key so they respect the account-wide limit together. A
+ * Redis store can implement `reserve` atomically with a sorted set and a Lua
+ * script (ZREMRANGEBYSCORE, ZCARD, ZADD).
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically drop timestamps older than `windowStart` and, if fewer than
+   * `limit` remain, record `timestamp`
+   */
+  reserve(windowStart: number, timestamp: number, limit: number): Promise<RateLimitReservation>;
+  /** Get timestamps at or after `windowStart`, oldest first */
+  snapshot(windowStart: number): Promise<number[]>;
+  /**
+   * Merge the server's count of requests into the window
+   * Drops timestamps older than `windowStart` and, if fewer than `used` remain,
+   * adds placeholders at `timestamp` to make up the difference. Recorded
+   * timestamps are never removed, so reservations from other clients survive.
+   */
+  sync(windowStart: number, used: number, timestamp: number): Promise<number[]>;
+  /** Remove all timestamps */
+  clear(): Promise<void>;
+}
+
 /**
  * Rate limiting configuration
  */
@@ -32,6 +71,8 @@ export interface RateLimitConfig {
   retryAfterMs: number;
   /** Maximum retry attempts (default: 3) */
   maxRetries: number;
+  /** Where request timestamps are kept (default: in-memory, per client) */
+  store?: RateLimitStore;
 }
 
 /**
@@ -46,6 +87,455 @@ export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
   maxRetries: 3,
 };
 
+/**
+ * A cached API response
+ */
+export interface CacheEntry {
+  /** Raw JSON:API response body */
+  value: unknown;
+  /** Expiry time in milliseconds since epoch */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for the response cache
+ * Keys start with the collection name followed by a space, so everything
+ * cached for one collection can be dropped with `deletePrefix`.
+ */
+export interface CacheStore {
+  /** Get an entry, expired or not */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** Store an entry */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove every entry whose key starts with `prefix` */
+  deletePrefix(prefix: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Cache policy for one collection
+ */
+export interface CachePolicy {
+  /** Time to keep a response in milliseconds */
+  ttlMs: number;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface CacheConfig {
+  /** Enable the response cache (default: false) */
+  enabled: boolean;
+  /** Where responses are kept (default: in-memory LRU with 500 entries) */
+  store?: CacheStore;
+  /**
+   * Cache policies keyed by collection name as it appears in the URL,
+   * e.g. `countries` or `configuration_types`. Set a collection to `false`
+   * to stop caching it. Collections without a policy are never cached.
+   */
+  policies: Record<string, CachePolicy | false>;
+}
+
+/**
+ * How attribute keys are converted between the API's kebab-case and camelCase
+ */
+export interface KeyTransformConfig {
+  /** 'camel' converts attribute keys (default); 'raw' leaves every key as sent by the API */
+  mode: 'camel' | 'raw';
+  /**
+   * camelCase attribute names whose nested keys are passed through verbatim in
+   * both directions; the attribute name itself is still converted
+   */
+  preserve: string[];
+}
+
+/**
+ * Default key transform policy
+ * Flexible asset `traits` are keyed by user-defined field names, so they are kept as-is.
+ */
+export const DEFAULT_KEY_TRANSFORM_CONFIG: KeyTransformConfig = {
+  mode: 'camel',
+  preserve: ['traits'],
+};
+
+/**
+ * Which deserialized values are converted from the strings the API sends
+ */
+export interface CoercionConfig {
+  /** Convert known timestamp and date attributes to `Date` */
+  dates: boolean;
+  /** Convert numeric-string resource ids to numbers */
+  ids: boolean;
+}
+
+/**
+ * Default coercion: values are returned as sent by the API
+ */
+export const DEFAULT_COERCION_CONFIG: CoercionConfig = {
+  dates: false,
+  ids: false,
+};
+
+/**
+ * Attributes the API sends as ISO 8601 timestamps
+ */
+export const TIMESTAMP_ATTRIBUTES = [
+  'createdAt',
+  'updatedAt',
+  'passwordUpdatedAt',
+  'lastSignInAt',
+  'currentSignInAt',
+  'completedAt',
+] as const;
+
+/**
+ * Attributes the API sends and expects as dates without a time (YYYY-MM-DD)
+ */
+export const DATE_ONLY_ATTRIBUTES = [
+  'purchasedAt',
+  'warrantyExpiresAt',
+  'installedAt',
+  'expirationDate',
+  'notificationDate',
+  'dueDate',
+] as const;
+
+export type TimestampAttribute = (typeof TIMESTAMP_ATTRIBUTES)[number];
+export type DateOnlyAttribute = (typeof DATE_ONLY_ATTRIBUTES)[number];
+
+/**
+ * A deserialized resource as returned with coercion enabled
+ * Pass the enabled options as `C` when only one of them is on,
+ * e.g. `Coerced<Configuration, 'dates'>`.
+ */
+export type Coerced<T, C extends keyof CoercionConfig = keyof CoercionConfig> = {
+  [K in keyof T]: K extends 'id'
+    ? 'ids' extends C
+      ? number
+      : T[K]
+    : K extends TimestampAttribute | DateOnlyAttribute
+      ? 'dates' extends C
+        ? Date
+        : T[K]
+      : NonNullable<T[K]> extends readonly (infer E extends { type: string })[]
+        ? Coerced<E, C>[]
+        : NonNullable<T[K]> extends { type: string }
+          ? Coerced<NonNullable<T[K]>, C>
+          : T[K];
+};
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Default response cache configuration
+ * Covers lookup collections that rarely change
+ */
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: false,
+  policies: {
+    countries: { ttlMs: DAY_MS },
+    regions: { ttlMs: DAY_MS },
+    platforms: { ttlMs: DAY_MS },
+    operating_systems: { ttlMs: DAY_MS },
+    manufacturers: { ttlMs: HOUR_MS },
+    models: { ttlMs: HOUR_MS },
+    configuration_types: { ttlMs: HOUR_MS },
+    configuration_statuses: { ttlMs: HOUR_MS },
+    organization_types: { ttlMs: HOUR_MS },
+    contact_types: { ttlMs: HOUR_MS },
+    password_categories: { ttlMs: HOUR_MS },
+  },
+};
+
+/**
+ * Circuit breaker state
+ * - closed: requests flow normally
+ * - open: requests fail fast until the reset timeout elapses
+ * - half-open: a limited number of trial requests decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Enable the circuit breaker (default: false) */
+  enabled: boolean;
+  /** Consecutive server/network failures that open the circuit (default: 5) */
+  failureThreshold: number;
+  /** Time the circuit stays open before allowing a trial request (default: 30 seconds) */
+  resetTimeoutMs: number;
+  /** Trial requests allowed at once while half-open (default: 1) */
+  halfOpenMaxRequests: number;
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  enabled: false,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Scheduling priority for a request
+ * Queued interactive work runs before normal work, which runs before background work.
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+/**
+ * Request scheduler configuration
+ */
+export interface SchedulerConfig {
+  /** Maximum number of requests in flight at once (default: 10) */
+  maxConcurrency: number;
+}
+
+/**
+ * Default request scheduler configuration
+ */
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxConcurrency: 10,
+};
+
+/**
+ * Kinds of failure a retry policy can retry
+ * - rateLimit: 429 responses (`ITGlueRateLimitError`)
+ * - server: 5xx responses (`ITGlueServerError`)
+ * - network: connection failures (`ITGlueNetworkError`)
+ * - timeout: requests that exceeded their timeout (`ITGlueTimeoutError`)
+ */
+export type RetryableErrorKind = 'rateLimit' | 'server' | 'network' | 'timeout';
+
+/**
+ * Details of a retry, passed to `RetryPolicy.onRetry`
+ */
+export interface RetryAttempt {
+  /** HTTP method of the failed request */
+  method: HttpMethod;
+  /** Request path */
+  path: string;
+  /** Retry number, starting at 1 */
+  attempt: number;
+  /** Error that triggered the retry */
+  error: Error;
+  /** Kind of failure that triggered the retry */
+  kind: RetryableErrorKind;
+  /** Delay before the retry is sent, in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Retry policy for failed requests
+ *
+ * Retries use full-jitter exponential backoff: each delay is a random value
+ * between 0 and `min(maxDelayMs, baseDelayMs * 2^attempt)`. A `Retry-After`
+ * sent with a 429 is honored exactly instead.
+ */
+export interface RetryPolicy {
+  /** Maximum retry attempts (default: `rateLimiter.maxRetries`) */
+  maxRetries: number;
+  /** Base backoff delay in milliseconds (default: `rateLimiter.retryAfterMs`) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 60000) */
+  maxDelayMs: number;
+  /**
+   * Failure kinds retried for each HTTP method. POST only retries 429s by
+   * default, because a 5xx or dropped connection may still have created the record.
+   */
+  methods: Record<HttpMethod, RetryableErrorKind[]>;
+  /** Stop retrying once this many milliseconds have passed since the first attempt */
+  deadlineMs?: number;
+  /** Called before each retry is scheduled */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Default retry policy (maxRetries and baseDelayMs come from the rate limiter config)
+ */
+export const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'maxRetries' | 'baseDelayMs'> = {
+  maxDelayMs: 60000,
+  methods: {
+    GET: ['rateLimit', 'server', 'network', 'timeout'],
+    DELETE: ['rateLimit', 'server', 'network', 'timeout'],
+    PATCH: ['rateLimit', 'server'],
+    POST: ['rateLimit'],
+  },
+};
+
+/**
+ * Retry policy options accepted by the client configuration
+ */
+export type RetryPolicyConfig = Partial<Omit<RetryPolicy, 'methods'>> & {
+  /** Per-method rules, merged with the defaults */
+  methods?: Partial<Record<HttpMethod, RetryableErrorKind[]>>;
+};
+
+/**
+ * Per-call overrides for the retry policy
+ */
+export interface RetryOverrides {
+  /** Maximum retry attempts for this call (0 disables retries) */
+  maxRetries?: number;
+  /** Base backoff delay in milliseconds */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs?: number;
+  /** Failure kinds to retry for this call, replacing the rule for its method */
+  retryOn?: RetryableErrorKind[];
+  /** Stop retrying once this many milliseconds have passed since the first attempt */
+  deadlineMs?: number;
+  /** Called before each retry of this call, in addition to the policy's callback */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Per-call options accepted by every resource method
+ */
+export interface CallOptions {
+  /** Scheduling priority (default: 'normal') */
+  priority?: RequestPriority;
+  /** Cancels the call, including time spent queued, throttled or backing off */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, overriding the client default */
+  timeout?: number;
+  /** Additional headers sent with the request */
+  headers?: Record<string, string>;
+  /** Retry overrides for this call */
+  retry?: RetryOverrides;
+  /** Set to false to bypass the response cache for this call */
+  cache?: boolean;
+}
+
+/**
+ * HTTP details of a response, beyond the deserialized data
+ */
+export interface ResponseDetails {
+  /** HTTP status code */
+  status: number;
+  /** Response headers, including the rate limit headers */
+  headers: Headers;
+  /** Request ID reported by the server, if any */
+  requestId?: string;
+  /** Complete top-level `meta` of the body, keys transformed like attributes */
+  meta?: Record<string, unknown>;
+  /** Top-level `links` of the body */
+  links?: Record<string, string | null>;
+}
+
+/**
+ * A resource method's usual result together with the response it came from
+ */
+export interface RawResponse<T> extends ResponseDetails {
+  /** What the method resolves to without `withResponse()` */
+  data: T;
+  /** Duration of the whole call in milliseconds, including queueing and retries */
+  durationMs: number;
+}
+
+/**
+ * A resource whose promise-returning methods resolve to a RawResponse
+ */
+export type ResponseView<T> = {
+  [K in keyof T as T[K] extends (...args: never[]) => Promise<unknown> ? K : never]: T[K] extends (
+    ...args: infer A
+  ) => Promise<infer R>
+    ? (...args: A) => Promise<RawResponse<R>>
+    : never;
+};
+
+/**
+ * Options for bulk create, update and destroy calls
+ */
+export interface BulkOptions extends CallOptions {
+  /** Items per request; larger inputs are split into sequential batches (default: all in one) */
+  chunkSize?: number;
+}
+
+/**
+ * Update data for one item of a bulk update, identified by `id`
+ */
+export type BulkUpdateItem<TUpdateData> = TUpdateData & { id: string | number };
+
+/**
+ * An input item whose batch was rejected
+ */
+export interface BulkFailure<TInput> {
+  /** Position of the item in the input array */
+  index: number;
+  item: TInput;
+  error: Error;
+}
+
+/**
+ * Outcome of a bulk call
+ * A failed batch marks all of its items as failed; later batches still run.
+ */
+export interface BulkResult<TResult, TInput> {
+  succeeded: TResult[];
+  failed: BulkFailure<TInput>[];
+}
+
+/**
+ * Request options passed to the fetch function
+ * `dispatcher` is set when the client is configured with an undici dispatcher. It
+ * replaces the global `RequestInit` field, which is typed by Node's bundled undici.
+ */
+export type FetchRequestInit = Omit<RequestInit, 'dispatcher'> & { dispatcher?: Dispatcher };
+
+/**
+ * Fetch-compatible function used to perform HTTP requests
+ */
+export type FetchFunction = (url: string, init: FetchRequestInit) => Promise<Response>;
+
+/**
+ * Request details shared by the middleware hooks of a single request
+ */
+export interface MiddlewareContext {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Request path relative to the base URL (may be rewritten in onRequest) */
+  path: string;
+  /** Full request URL, rebuilt from path and params after onRequest hooks run */
+  url: string;
+  /** Query parameters (may be rewritten in onRequest) */
+  params?: Record<string, unknown>;
+  /** Serialized JSON:API request body (may be rewritten in onRequest) */
+  body?: Record<string, unknown>;
+  /** Request headers (may be rewritten in onRequest) */
+  headers: Record<string, string>;
+  /** Scratch space for passing data between hooks, e.g. start times */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Request/response middleware
+ *
+ * `onRequest` hooks run in registration order; `onResponse` and `onError`
+ * hooks run in reverse order so each middleware wraps the ones after it.
+ */
+export interface Middleware {
+  /**
+   * Called before the request is sent. Returning a Response skips the
+   * network call and uses that response instead.
+   */
+  onRequest?(context: MiddlewareContext): void | Response | Promise<void | Response>;
+  /**
+   * Called with the raw response, before error handling. Returning a Response
+   * replaces it. Use `response.clone()` to read the body without consuming it.
+   */
+  onResponse?(
+    context: MiddlewareContext,
+    response: Response
+  ): void | Response | Promise<void | Response>;
+  /** Called when the request fails; throw to replace the error */
+  onError?(context: MiddlewareContext, error: Error): void | Promise<void>;
+}
+
 /**
  * Client configuration options
  */
@@ -60,8 +550,29 @@ export interface ITGlueClientConfig {
   timeout?: number;
   /** Rate limiting configuration */
   rateLimiter?: Partial<RateLimitConfig>;
+  /** Request concurrency configuration */
+  scheduler?: Partial<SchedulerConfig>;
+  /** Retry policy for failed requests */
+  retry?: RetryPolicyConfig;
+  /** Circuit breaker configuration */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Response cache configuration; `policies` entries are merged with the defaults */
+  cache?: Partial<CacheConfig>;
+  /** Attribute key transform policy; `preserve` replaces the default list */
+  keyTransform?: Partial<KeyTransformConfig>;
+  /** Convert timestamps to `Date` and numeric ids to numbers when deserializing (default: off) */
+  coerce?: Partial<CoercionConfig>;
   /** Include relationships data by default */
   includeRelationships?: boolean;
+  /** Custom fetch implementation, e.g. a test double (default: global fetch) */
+  fetch?: FetchFunction;
+  /**
+   * undici dispatcher used for every request, e.g. a keep-alive `Agent`,
+   * a `ProxyAgent` or an `Agent` with custom TLS options
+   */
+  dispatcher?: Dispatcher;
+  /** Middleware applied to every request, in order */
+  middleware?: Middleware[];
 }
 
 /**
@@ -82,20 +593,81 @@ export interface FilterOperators<T> {
   gte?: T;
   lt?: T;
   lte?: T;
+  /** Inclusive range, sent as `start,end` */
+  between?: readonly [T, T];
+  /** Match any of the values, sent comma-separated */
+  in?: readonly T[];
+  /** Exclude the values, sent as `filter[exclude][field]` */
+  notIn?: readonly T[];
 }
 
+/**
+ * Filter on a date or timestamp; `Date` objects are sent as ISO 8601 strings
+ */
+export type DateFilter = string | Date | FilterOperators<string | Date>;
+
+/**
+ * Filter on one or more resource IDs
+ */
+export type IdFilter = number | readonly number[] | FilterOperators<number>;
+
 /**
  * Common list parameters for all resources
  */
 export interface ListParams {
   /** Pagination options */
   page?: PaginationParams;
-  /** Sort field (prefix with - for descending) */
-  sort?: string;
+  /** Sort field (prefix with - for descending), or several in order */
+  sort?: string | readonly string[];
   /** Related resources to include (sideload) */
-  include?: string;
+  include?: string | readonly string[];
+  /** Sparse fieldsets, keyed by JSON:API type */
+  fields?: Record<string, readonly string[]>;
 }
 
+/**
+ * Sort fields accepted by most IT Glue resources
+ */
+export type CommonSortField = 'id' | 'name' | 'created_at' | 'updated_at';
+
+/**
+ * A sort field, optionally prefixed with `-` for descending order
+ */
+export type SortKey<K extends string> = K | `-${K}`;
+
+/**
+ * One sort key, or several applied in order (sent comma-separated)
+ */
+export type SortParam<K extends string> = SortKey<K> | readonly SortKey<K>[];
+
+/**
+ * One related resource to include, or several (sent comma-separated)
+ */
+export type IncludeParam<K extends string> = K | readonly K[];
+
+/**
+ * Field names of a resource that can be requested in a sparse fieldset
+ */
+export type ResourceField<T> = Exclude<Extract<keyof T, string>, 'id' | 'type' | 'relationships'>;
+
+/**
+ * Sparse fieldset for a resource, e.g. `{ configurations: ['name', 'updatedAt'] }`
+ * Field names are camelCase and sent to the API as kebab-case.
+ */
+export type SparseFieldset<T extends { type: string }> = {
+  [K in T['type']]?: readonly ResourceField<T>[];
+};
+
+/**
+ * Narrow a resource to the fields requested through `params.fields`
+ * Resolves to the full resource when no fieldset is given for its type.
+ */
+export type WithFields<T extends { type: string }, P> = P extends { fields?: infer S }
+  ? S extends { [K in T['type']]: readonly (infer F)[] }
+    ? Pick<T, Extract<F | 'id' | 'type' | 'relationships', keyof T>>
+    : T
+  : T;
+
 /**
  * JSON:API relationship link
  */
@@ -104,6 +676,19 @@ export interface RelationshipLink {
   type: string;
 }
 
+/**
+ * Relationship entry in create/update data: a link to an existing resource,
+ * or a new resource side-posted together with its parent
+ */
+export type RelationshipItem<TType extends string = string, TAttributes = Record<string, unknown>> =
+  | { type: TType; id: string | number }
+  | { type: TType; attributes: TAttributes };
+
+/**
+ * Relationships section of create/update data, keyed by camelCase relationship name
+ */
+export type RelationshipsData = Record<string, RelationshipItem | RelationshipItem[] | null>;
+
 /**
  * JSON:API meta information for pagination
  */
@@ -147,6 +732,20 @@ export interface JsonApiResource {
   relationships?: Record<string, { data: RelationshipLink | RelationshipLink[] | null }>;
 }
 
+/**
+ * Resource object in a JSON:API request body
+ * `id` is absent for new resources, including side-posted children.
+ */
+export interface JsonApiRequestResource {
+  id?: string;
+  type: string;
+  attributes?: Record<string, unknown>;
+  relationships?: Record<
+    string,
+    { data: JsonApiRequestResource | JsonApiRequestResource[] | null }
+  >;
+}
+
 /**
  * Raw JSON:API response envelope
  */
@@ -158,7 +757,9 @@ export interface JsonApiResponse {
     'prev-page'?: number | null;
     'total-pages'?: number;
     'total-count'?: number;
+    [key: string]: unknown;
   };
+  links?: Record<string, string | null>;
   included?: JsonApiResource[];
   errors?: JsonApiError[];
 }
@@ -190,10 +791,88 @@ export interface BaseResource {
   relationships?: Record<string, RelationshipLink[]>;
 }
 
+/**
+ * Options for mapConcurrent
+ */
+export interface MapConcurrentOptions {
+  /** Maximum number of callbacks running at once */
+  concurrency: number;
+}
+
 /**
  * Async iterable with utility methods
+ * Chained helpers are lazy: they pull items from the source only as their own
+ * items are consumed, so a whole result set is never buffered. Methods that
+ * return a promise consume the iterable; stopping early stops fetching.
  */
 export interface AsyncIterableWithHelpers<T> extends AsyncIterable<T> {
   /** Collect all items into an array */
   toArray(): Promise<T[]>;
+  /** Transform each item */
+  map<U>(fn: (item: T, index: number) => U | Promise<U>): AsyncIterableWithHelpers<U>;
+  /** Keep the items matching a predicate */
+  filter<S extends T>(fn: (item: T, index: number) => item is S): AsyncIterableWithHelpers<S>;
+  filter(fn: (item: T, index: number) => unknown): AsyncIterableWithHelpers<T>;
+  /** Stop after the first `count` items */
+  take(count: number): AsyncIterableWithHelpers<T>;
+  /** Drop the first `count` items */
+  skip(count: number): AsyncIterableWithHelpers<T>;
+  /** Group items into arrays of `size`; the last array may be shorter */
+  chunk(size: number): AsyncIterableWithHelpers<T[]>;
+  /** Transform each item into any number of items */
+  flatMap<U>(
+    fn: (item: T, index: number) => Iterable<U> | AsyncIterable<U> | Promise<Iterable<U>>
+  ): AsyncIterableWithHelpers<U>;
+  /** Transform items with up to `concurrency` callbacks in flight, keeping their order */
+  mapConcurrent<U>(
+    fn: (item: T, index: number) => U | Promise<U>,
+    options: MapConcurrentOptions
+  ): AsyncIterableWithHelpers<U>;
+  /** Fold all items into a single value */
+  reduce<U>(fn: (result: U, item: T, index: number) => U | Promise<U>, initial: U): Promise<U>;
+  /** First item matching a predicate */
+  find<S extends T>(fn: (item: T, index: number) => item is S): Promise<S | undefined>;
+  find(fn: (item: T, index: number) => unknown): Promise<T | undefined>;
+  /** Whether any item matches a predicate */
+  some(fn: (item: T, index: number) => unknown): Promise<boolean>;
+  /** Number of items */
+  count(): Promise<number>;
+  /** Group items by key, in order of first appearance */
+  groupBy<K>(fn: (item: T, index: number) => K | Promise<K>): Promise<Map<K, T[]>>;
+  /** First item, fetching no further than the page it is on */
+  first(): Promise<T | undefined>;
+}
+
+/**
+ * Serializable position within a paginated iteration
+ */
+export interface PaginationCheckpoint {
+  /** Page holding the next item */
+  page: number;
+  /** Page size the position refers to */
+  size: number;
+  /** Index of the next item within the page */
+  index: number;
+  /** Fingerprint of the filter, sort and other params being iterated */
+  filterHash: string;
+  /** ID of the last item yielded, used to realign if the page has shifted */
+  lastId?: string;
+}
+
+/**
+ * Item iterator over a paginated collection that can be resumed later
+ */
+export interface PaginatedIterable<T> extends AsyncIterableWithHelpers<T> {
+  /** Position after the last item yielded; pass it back as `resumeFrom` */
+  checkpoint(): PaginationCheckpoint;
+  /** Pagination meta of the page iteration last reached; undefined before the first */
+  readonly meta: PaginationMeta | undefined;
+}
+
+/**
+ * Extra parameters accepted by listAll
+ */
+export interface ResumableParams {
+  /** Continue an earlier iteration; fails if the params have changed since */
+  resumeFrom?: PaginationCheckpoint;
 }
@@ -2,7 +2,20 @@
  * Types for IT Glue Configurations (Assets) resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipItem,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Attachment, RelatedItem } from './misc.js';
+import type { Password } from './passwords.js';
 
 /**
  * Configuration (Asset) resource
@@ -45,6 +58,11 @@ export interface Configuration extends BaseResource {
     id?: number;
     name?: string;
   };
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  configurationInterfaces?: ConfigurationInterface[];
+  passwords?: Password[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
     configurationType?: RelationshipLink[];
@@ -63,7 +81,7 @@ export interface Configuration extends BaseResource {
  */
 export interface ConfigurationFilter {
   /** Filter by configuration ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by organization ID */
@@ -101,16 +119,52 @@ export interface ConfigurationFilter {
   /** Exclude specific configuration IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Sortable configuration fields
+ */
+export type ConfigurationSortField =
+  | CommonSortField
+  | 'hostname'
+  | 'primary_ip'
+  | 'serial_number'
+  | 'configuration_type_name'
+  | 'configuration_status_name'
+  | 'organization_name'
+  | 'location_name'
+  | 'contact_name';
+
+/**
+ * Relationships that can be included with configurations
+ */
+export type ConfigurationInclude =
+  | 'adapters_resources'
+  | 'attachments'
+  | 'authorized_users'
+  | 'configuration_interfaces'
+  | 'group_resource_accesses'
+  | 'passwords'
+  | 'recent_versions'
+  | 'related_items'
+  | 'rmm_records'
+  | 'tickets'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing configurations
  */
 export interface ConfigurationListParams extends ListParams {
   filter?: ConfigurationFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<ConfigurationSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<ConfigurationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Configuration>;
 }
 
 /**
@@ -118,7 +172,9 @@ export interface ConfigurationListParams extends ListParams {
  */
 export interface ConfigurationGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<ConfigurationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Configuration>;
 }
 
 /**
@@ -138,9 +194,9 @@ export interface ConfigurationCreateData {
   position?: string;
   installedBy?: string;
   purchasedBy?: string;
-  purchasedAt?: string;
-  warrantyExpiresAt?: string;
-  installedAt?: string;
+  purchasedAt?: string | Date;
+  warrantyExpiresAt?: string | Date;
+  installedAt?: string | Date;
   notes?: string;
   archived?: boolean;
   manufacturerId?: number;
@@ -149,6 +205,18 @@ export interface ConfigurationCreateData {
   operatingSystemNotes?: string;
   locationId?: number;
   contactId?: number;
+  relationships?: ConfigurationRelationshipsData;
+}
+
+/**
+ * Relationships that can be sent when creating or updating a configuration
+ */
+export interface ConfigurationRelationshipsData {
+  /** Interfaces to side-post with the configuration, or existing ones to link */
+  configurationInterfaces?: RelationshipItem<
+    'configuration-interfaces',
+    Omit<ConfigurationInterfaceCreateData, 'configurationId'>
+  >[];
 }
 
 /**
@@ -168,9 +236,9 @@ export interface ConfigurationUpdateData {
   position?: string;
   installedBy?: string;
   purchasedBy?: string;
-  purchasedAt?: string;
-  warrantyExpiresAt?: string;
-  installedAt?: string;
+  purchasedAt?: string | Date;
+  warrantyExpiresAt?: string | Date;
+  installedAt?: string | Date;
   notes?: string;
   archived?: boolean;
   manufacturerId?: number;
@@ -179,6 +247,7 @@ export interface ConfigurationUpdateData {
   operatingSystemNotes?: string;
   locationId?: number;
   contactId?: number;
+  relationships?: ConfigurationRelationshipsData;
 }
 
 /**
@@ -196,6 +265,10 @@ export interface ConfigurationTypeListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<ConfigurationType>;
 }
 
 /**
@@ -227,6 +300,10 @@ export interface ConfigurationStatusListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<ConfigurationStatus>;
 }
 
 /**
@@ -263,6 +340,10 @@ export interface ConfigurationInterfaceListParams extends ListParams {
   filter?: {
     ipAddress?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField | 'ip_address'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<ConfigurationInterface>;
 }
 
 /**
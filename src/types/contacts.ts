@@ -2,7 +2,20 @@
  * Types for IT Glue Contacts resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Location } from './locations.js';
+import type { Attachment, RelatedItem } from './misc.js';
+import type { Password } from './passwords.js';
 
 /**
  * Contact resource
@@ -23,6 +36,11 @@ export interface Contact extends BaseResource {
   notes?: string;
   contactEmails?: ContactEmail[];
   contactPhones?: ContactPhone[];
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  location?: Location;
+  passwords?: Password[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
     contactType?: RelationshipLink[];
@@ -58,7 +76,7 @@ export interface ContactPhone {
  */
 export interface ContactFilter {
   /** Filter by contact ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by first name */
   firstName?: string;
   /** Filter by last name */
@@ -78,16 +96,43 @@ export interface ContactFilter {
   /** Exclude specific contact IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Sortable contact fields
+ */
+export type ContactSortField = 'id' | 'first_name' | 'last_name' | 'created_at' | 'updated_at';
+
+/**
+ * Relationships that can be included with contacts
+ */
+export type ContactInclude =
+  | 'adapters_resources'
+  | 'attachments'
+  | 'distinct_remote_contacts'
+  | 'group_resource_accesses'
+  | 'location'
+  | 'passwords'
+  | 'recent_versions'
+  | 'related_items'
+  | 'resource_fields'
+  | 'tickets'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing contacts
  */
 export interface ContactListParams extends ListParams {
   filter?: ContactFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<ContactSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<ContactInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Contact>;
 }
 
 /**
@@ -95,7 +140,9 @@ export interface ContactListParams extends ListParams {
  */
 export interface ContactGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<ContactInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Contact>;
 }
 
 /**
@@ -145,6 +192,10 @@ export interface ContactTypeListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<ContactType>;
 }
 
 /**
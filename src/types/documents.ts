@@ -2,7 +2,18 @@
  * Types for IT Glue Documents resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Attachment, RelatedItem } from './misc.js';
 
 /**
  * Document resource
@@ -17,6 +28,9 @@ export interface Document extends BaseResource {
   published?: boolean;
   pinned?: boolean;
   draft?: boolean;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
   };
@@ -27,7 +41,7 @@ export interface Document extends BaseResource {
  */
 export interface DocumentFilter {
   /** Filter by document ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by organization ID */
@@ -39,18 +53,29 @@ export interface DocumentFilter {
   /** Exclude specific document IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
   /** Filter by document folder ID */
   documentFolderId?: number;
 }
 
+/**
+ * Relationships that can be included with documents
+ */
+export type DocumentInclude = 'attachments' | 'related_items';
+
 /**
  * Parameters for listing documents
  */
 export interface DocumentListParams extends ListParams {
   filter?: DocumentFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<DocumentInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Document>;
 }
 
 /**
@@ -58,7 +83,9 @@ export interface DocumentListParams extends ListParams {
  */
 export interface DocumentGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<DocumentInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Document>;
 }
 
 /**
@@ -98,6 +125,10 @@ export interface DocumentSectionListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<'id' | 'created_at' | 'updated_at'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<DocumentSection>;
 }
 
 /**
@@ -136,6 +167,10 @@ export interface DocumentImageListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<'id' | 'created_at' | 'updated_at'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<DocumentImage>;
 }
 
 /**
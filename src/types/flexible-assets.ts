@@ -2,7 +2,20 @@
  * Types for IT Glue Flexible Assets resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  RelationshipsData,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Attachment, RelatedItem } from './misc.js';
+import type { Password } from './passwords.js';
 
 /**
  * Flexible Asset Type resource
@@ -14,11 +27,18 @@ export interface FlexibleAssetType extends BaseResource {
   icon?: string;
   showInMenu?: boolean;
   enabled?: boolean;
+  /** Related resources, populated from `included` when requested via `include` */
+  flexibleAssetFields?: FlexibleAssetField[];
   relationships?: {
     flexibleAssetFields?: RelationshipLink[];
   };
 }
 
+/**
+ * Relationships that can be included with flexible asset types
+ */
+export type FlexibleAssetTypeInclude = 'flexible_asset_fields';
+
 /**
  * Parameters for listing flexible asset types
  */
@@ -28,6 +48,12 @@ export interface FlexibleAssetTypeListParams extends ListParams {
     icon?: string;
     enabled?: boolean;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<FlexibleAssetTypeInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<FlexibleAssetType>;
 }
 
 /**
@@ -35,7 +61,9 @@ export interface FlexibleAssetTypeListParams extends ListParams {
  */
 export interface FlexibleAssetTypeGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<FlexibleAssetTypeInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<FlexibleAssetType>;
 }
 
 /**
@@ -101,6 +129,10 @@ export interface FlexibleAssetFieldListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField | 'order'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<FlexibleAssetField>;
 }
 
 /**
@@ -148,6 +180,10 @@ export interface FlexibleAsset extends BaseResource {
   name?: string;
   archived?: boolean;
   traits: Record<string, unknown>;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  passwords?: Password[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
     flexibleAssetType?: RelationshipLink[];
@@ -159,7 +195,7 @@ export interface FlexibleAsset extends BaseResource {
  */
 export interface FlexibleAssetFilter {
   /** Filter by flexible asset ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by organization ID - REQUIRED */
   organizationId?: number;
   /** Filter by flexible asset type ID - REQUIRED */
@@ -171,16 +207,36 @@ export interface FlexibleAssetFilter {
   /** Exclude specific flexible asset IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Relationships that can be included with flexible assets
+ */
+export type FlexibleAssetInclude =
+  | 'adapters_resources'
+  | 'attachments'
+  | 'authorized_users'
+  | 'distinct_remote_assets'
+  | 'group_resource_accesses'
+  | 'passwords'
+  | 'recent_versions'
+  | 'related_items'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing flexible assets
  */
 export interface FlexibleAssetListParams extends ListParams {
   filter: FlexibleAssetFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<FlexibleAssetInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<FlexibleAsset>;
 }
 
 /**
@@ -188,7 +244,9 @@ export interface FlexibleAssetListParams extends ListParams {
  */
 export interface FlexibleAssetGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<FlexibleAssetInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<FlexibleAsset>;
 }
 
 /**
@@ -199,6 +257,8 @@ export interface FlexibleAssetCreateData {
   flexibleAssetTypeId: number;
   traits: Record<string, unknown>;
   archived?: boolean;
+  /** Related resources to link or side-post, e.g. tag links */
+  relationships?: RelationshipsData;
 }
 
 /**
@@ -207,4 +267,6 @@ export interface FlexibleAssetCreateData {
 export interface FlexibleAssetUpdateData {
   traits?: Record<string, unknown>;
   archived?: boolean;
+  /** Related resources to link or side-post, e.g. tag links */
+  relationships?: RelationshipsData;
 }
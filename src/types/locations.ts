@@ -2,7 +2,19 @@
  * Types for IT Glue Locations resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Attachment, RelatedItem } from './misc.js';
+import type { Password } from './passwords.js';
 
 /**
  * Location resource
@@ -25,6 +37,10 @@ export interface Location extends BaseResource {
   fax?: string;
   notes?: string;
   formattedAddress?: string;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  passwords?: Password[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
     region?: RelationshipLink[];
@@ -37,7 +53,7 @@ export interface Location extends BaseResource {
  */
 export interface LocationFilter {
   /** Filter by location ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by organization ID */
@@ -57,16 +73,35 @@ export interface LocationFilter {
   /** Exclude specific location IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Relationships that can be included with locations
+ */
+export type LocationInclude =
+  | 'adapters_resources'
+  | 'attachments'
+  | 'authorized_users'
+  | 'group_resource_accesses'
+  | 'passwords'
+  | 'recent_versions'
+  | 'related_items'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing locations
  */
 export interface LocationListParams extends ListParams {
   filter?: LocationFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<LocationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Location>;
 }
 
 /**
@@ -74,7 +109,9 @@ export interface LocationListParams extends ListParams {
  */
 export interface LocationGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<LocationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Location>;
 }
 
 /**
@@ -2,7 +2,15 @@
  * Types for IT Glue metadata resources (manufacturers, models, platforms, operating systems, countries, regions)
  */
 
-import type { BaseResource, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  IdFilter,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
 
 /**
  * Manufacturer resource
@@ -17,7 +25,7 @@ export interface Manufacturer extends BaseResource {
  */
 export interface ManufacturerFilter {
   /** Filter by manufacturer ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
 }
@@ -27,6 +35,10 @@ export interface ManufacturerFilter {
  */
 export interface ManufacturerListParams extends ListParams {
   filter?: ManufacturerFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Manufacturer>;
 }
 
 /**
@@ -35,6 +47,8 @@ export interface ManufacturerListParams extends ListParams {
 export interface ManufacturerGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Manufacturer>;
 }
 
 /**
@@ -68,16 +82,25 @@ export interface Model extends BaseResource {
  */
 export interface ModelFilter {
   /** Filter by model ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
 }
 
+/**
+ * Sortable model fields
+ */
+export type ModelSortField = CommonSortField | 'manufacturer_id';
+
 /**
  * Parameters for listing models
  */
 export interface ModelListParams extends ListParams {
   filter?: ModelFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<ModelSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Model>;
 }
 
 /**
@@ -116,6 +139,10 @@ export interface PlatformFilter {
  */
 export interface PlatformListParams extends ListParams {
   filter?: PlatformFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Platform>;
 }
 
 /**
@@ -146,6 +173,10 @@ export interface OperatingSystemFilter {
  */
 export interface OperatingSystemListParams extends ListParams {
   filter?: OperatingSystemFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<OperatingSystem>;
 }
 
 /**
@@ -176,6 +207,10 @@ export interface CountryFilter {
  */
 export interface CountryListParams extends ListParams {
   filter?: CountryFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Country>;
 }
 
 /**
@@ -184,6 +219,8 @@ export interface CountryListParams extends ListParams {
 export interface CountryGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Country>;
 }
 
 /**
@@ -214,4 +251,8 @@ export interface RegionFilter {
  */
 export interface RegionListParams extends ListParams {
   filter?: RegionFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Region>;
 }
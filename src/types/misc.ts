@@ -2,7 +2,18 @@
  * Types for IT Glue miscellaneous resources (domains, expirations, logs, attachments, related items, exports, checklists)
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Password } from './passwords.js';
 
 /**
  * Domain resource
@@ -15,11 +26,23 @@ export interface Domain extends BaseResource {
   registrarName?: string;
   expirationDate?: string;
   notes?: string;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  passwords?: Password[];
   relationships?: {
     organization?: RelationshipLink[];
   };
 }
 
+/**
+ * Relationships that can be included with domains
+ */
+export type DomainInclude =
+  | 'attachments'
+  | 'passwords'
+  | 'group_resource_accesses'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing domains
  */
@@ -28,6 +51,12 @@ export interface DomainListParams extends ListParams {
     name?: string;
     organizationId?: number;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<DomainInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Domain>;
 }
 
 /**
@@ -53,20 +82,34 @@ export interface Expiration extends BaseResource {
  */
 export interface ExpirationFilter {
   /** Filter by expiration ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by organization ID */
   organizationId?: number;
   /** Filter by resource type */
   resourceType?: string;
   /** Filter by expiration date range */
-  expirationDate?: string | FilterOperators<string>;
+  expirationDate?: DateFilter;
 }
 
+/**
+ * Sortable expiration fields
+ */
+export type ExpirationSortField =
+  | 'id'
+  | 'organization_id'
+  | 'expiration_date'
+  | 'created_at'
+  | 'updated_at';
+
 /**
  * Parameters for listing expirations
  */
 export interface ExpirationListParams extends ListParams {
   filter?: ExpirationFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<ExpirationSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Expiration>;
 }
 
 /**
@@ -75,6 +118,8 @@ export interface ExpirationListParams extends ListParams {
 export interface ExpirationGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Expiration>;
 }
 
 /**
@@ -101,7 +146,7 @@ export interface LogFilter {
   /** Filter by organization ID */
   organizationId?: number;
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
 }
 
 /**
@@ -109,6 +154,10 @@ export interface LogFilter {
  */
 export interface LogListParams extends ListParams {
   filter?: LogFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<'created_at'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Log>;
 }
 
 /**
@@ -144,6 +193,10 @@ export interface AttachmentListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<'id' | 'created_at' | 'updated_at'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Attachment>;
 }
 
 /**
@@ -216,7 +269,7 @@ export interface Export extends BaseResource {
  */
 export interface ExportFilter {
   /** Filter by export ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by status */
   status?: 'pending' | 'processing' | 'completed' | 'failed';
 }
@@ -226,6 +279,10 @@ export interface ExportFilter {
  */
 export interface ExportListParams extends ListParams {
   filter?: ExportFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<'id' | 'created_at' | 'updated_at'>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Export>;
 }
 
 /**
@@ -234,6 +291,8 @@ export interface ExportListParams extends ListParams {
 export interface ExportGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Export>;
 }
 
 /**
@@ -287,11 +346,11 @@ export interface ChecklistItem {
  */
 export interface ChecklistFilter {
   /** Filter by checklist ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by due date */
-  dueDate?: string | FilterOperators<string>;
+  dueDate?: DateFilter;
 }
 
 /**
@@ -299,6 +358,10 @@ export interface ChecklistFilter {
  */
 export interface ChecklistListParams extends ListParams {
   filter?: ChecklistFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Checklist>;
 }
 
 /**
@@ -307,6 +370,8 @@ export interface ChecklistListParams extends ListParams {
 export interface ChecklistGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Checklist>;
 }
 
 /**
@@ -315,6 +380,6 @@ export interface ChecklistGetParams {
 export interface ChecklistUpdateData {
   name?: string;
   description?: string;
-  dueDate?: string;
+  dueDate?: string | Date;
   items?: ChecklistItem[];
 }
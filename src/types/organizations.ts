@@ -2,7 +2,24 @@
  * Types for IT Glue Organizations resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Configuration } from './configurations.js';
+import type { Contact } from './contacts.js';
+import type { Document } from './documents.js';
+import type { FlexibleAsset } from './flexible-assets.js';
+import type { Location } from './locations.js';
+import type { Attachment } from './misc.js';
+import type { Password } from './passwords.js';
 
 /**
  * Organization resource
@@ -20,6 +37,14 @@ export interface Organization extends BaseResource {
   logo?: string;
   quickNotes?: string;
   shortName?: string;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  locations?: Location[];
+  contacts?: Contact[];
+  configurations?: Configuration[];
+  passwords?: Password[];
+  documents?: Document[];
+  flexibleAssets?: FlexibleAsset[];
   relationships?: {
     locations?: RelationshipLink[];
     contacts?: RelationshipLink[];
@@ -35,7 +60,7 @@ export interface Organization extends BaseResource {
  */
 export interface OrganizationFilter {
   /** Filter by organization ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by organization name (partial match) */
   name?: string;
   /** Filter by organization type ID */
@@ -47,20 +72,50 @@ export interface OrganizationFilter {
   /** Exclude specific organization IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
   /** Filter by PSA integration ID */
   psaId?: string;
   /** Filter by PSA integration type */
   psaIntegrationType?: string;
 }
 
+/**
+ * Sortable organization fields
+ */
+export type OrganizationSortField =
+  | CommonSortField
+  | 'organization_status_name'
+  | 'organization_type_name'
+  | 'short_name'
+  | 'my_glue_account_id';
+
+/**
+ * Relationships that can be included with organizations
+ */
+export type OrganizationInclude =
+  | 'adapters_resources'
+  | 'attachments'
+  | 'rmm_companies'
+  | 'locations'
+  | 'contacts'
+  | 'configurations'
+  | 'passwords'
+  | 'documents'
+  | 'flexible_assets';
+
 /**
  * Parameters for listing organizations
  */
 export interface OrganizationListParams extends ListParams {
   filter?: OrganizationFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<OrganizationSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<OrganizationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Organization>;
 }
 
 /**
@@ -68,7 +123,9 @@ export interface OrganizationListParams extends ListParams {
  */
 export interface OrganizationGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<OrganizationInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Organization>;
 }
 
 /**
@@ -112,6 +169,10 @@ export interface OrganizationTypeListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<OrganizationType>;
 }
 
 /**
@@ -143,6 +204,10 @@ export interface OrganizationStatusListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<OrganizationStatus>;
 }
 
 /**
@@ -2,7 +2,18 @@
  * Types for IT Glue Passwords resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
+import type { Attachment, RelatedItem } from './misc.js';
 
 /**
  * Password resource
@@ -30,6 +41,9 @@ export interface Password extends BaseResource {
   vaultId?: number;
   vaultName?: string;
   autofillSelectors?: string;
+  /** Related resources, populated from `included` when requested via `include` */
+  attachments?: Attachment[];
+  relatedItems?: RelatedItem[];
   relationships?: {
     organization?: RelationshipLink[];
     passwordCategory?: RelationshipLink[];
@@ -42,7 +56,7 @@ export interface Password extends BaseResource {
  */
 export interface PasswordFilter {
   /** Filter by password ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by organization ID */
@@ -60,11 +74,30 @@ export interface PasswordFilter {
   /** Exclude specific password IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Sortable password fields
+ */
+export type PasswordSortField = CommonSortField | 'username';
+
+/**
+ * Relationships that can be included with passwords
+ */
+export type PasswordInclude =
+  | 'attachments'
+  | 'authorized_users'
+  | 'group_resource_accesses'
+  | 'network_glue_networks'
+  | 'recent_versions'
+  | 'related_items'
+  | 'rotatable_password'
+  | 'updater'
+  | 'user_resource_accesses';
+
 /**
  * Parameters for listing passwords
  */
@@ -72,6 +105,12 @@ export interface PasswordListParams extends ListParams {
   filter?: PasswordFilter;
   /** Include the password value in the response (requires special permission) */
   showPassword?: boolean;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<PasswordSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<PasswordInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Password>;
 }
 
 /**
@@ -79,9 +118,11 @@ export interface PasswordListParams extends ListParams {
  */
 export interface PasswordGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<PasswordInclude>;
   /** Include the password value in the response */
   showPassword?: boolean;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Password>;
 }
 
 /**
@@ -135,6 +176,10 @@ export interface PasswordCategoryListParams extends ListParams {
   filter?: {
     name?: string;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<PasswordCategory>;
 }
 
 /**
@@ -169,6 +214,10 @@ export interface PasswordFolderListParams extends ListParams {
     name?: string;
     parentFolderId?: number;
   };
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<PasswordFolder>;
 }
 
 /**
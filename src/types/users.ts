@@ -2,7 +2,17 @@
  * Types for IT Glue Users resource
  */
 
-import type { BaseResource, FilterOperators, ListParams, RelationshipLink } from './common.js';
+import type {
+  BaseResource,
+  CommonSortField,
+  DateFilter,
+  IdFilter,
+  IncludeParam,
+  ListParams,
+  RelationshipLink,
+  SortParam,
+  SparseFieldset,
+} from './common.js';
 
 /**
  * User resource
@@ -40,7 +50,7 @@ export interface User extends BaseResource {
  */
 export interface UserFilter {
   /** Filter by user ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Filter by email */
@@ -50,16 +60,25 @@ export interface UserFilter {
   /** Exclude specific user IDs */
   excludeId?: number | number[];
   /** Filter by creation date */
-  createdAt?: string | FilterOperators<string>;
+  createdAt?: DateFilter;
   /** Filter by update date */
-  updatedAt?: string | FilterOperators<string>;
+  updatedAt?: DateFilter;
 }
 
+/**
+ * Sortable user fields
+ */
+export type UserSortField = CommonSortField | 'email' | 'reputation';
+
 /**
  * Parameters for listing users
  */
 export interface UserListParams extends ListParams {
   filter?: UserFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<UserSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<User>;
 }
 
 /**
@@ -68,6 +87,8 @@ export interface UserListParams extends ListParams {
 export interface UserGetParams {
   /** Related resources to include */
   include?: string;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<User>;
 }
 
 /**
@@ -127,11 +148,20 @@ export interface UserMetricFilter {
   organizationId?: number;
 }
 
+/**
+ * Sortable user metric fields
+ */
+export type UserMetricSortField = 'id' | 'date' | 'created' | 'viewed' | 'edited' | 'deleted';
+
 /**
  * Parameters for listing user metrics
  */
 export interface UserMetricListParams extends ListParams {
   filter: UserMetricFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<UserMetricSortField>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<UserMetric>;
 }
 
 /**
@@ -142,6 +172,8 @@ export interface Group extends BaseResource {
   name: string;
   description?: string;
   default?: boolean;
+  /** Related resources, populated from `included` when requested via `include` */
+  users?: User[];
   relationships?: {
     users?: RelationshipLink[];
   };
@@ -152,18 +184,29 @@ export interface Group extends BaseResource {
  */
 export interface GroupFilter {
   /** Filter by group ID */
-  id?: number | number[];
+  id?: IdFilter;
   /** Filter by name */
   name?: string;
   /** Exclude specific group IDs */
   excludeId?: number | number[];
 }
 
+/**
+ * Relationships that can be included with groups
+ */
+export type GroupInclude = 'users';
+
 /**
  * Parameters for listing groups
  */
 export interface GroupListParams extends ListParams {
   filter?: GroupFilter;
+  /** Sort order; prefix a field with - for descending */
+  sort?: SortParam<CommonSortField>;
+  /** Related resources to include (sideload) */
+  include?: IncludeParam<GroupInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Group>;
 }
 
 /**
@@ -171,7 +214,9 @@ export interface GroupListParams extends ListParams {
  */
 export interface GroupGetParams {
   /** Related resources to include */
-  include?: string;
+  include?: IncludeParam<GroupInclude>;
+  /** Fields to return, keyed by JSON:API type */
+  fields?: SparseFieldset<Group>;
 }
 
 /**
@@ -2,7 +2,7 @@
  * Integration tests for Organizations resource
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { ITGlueClient } from '../../src/client.js';
 import {
   ITGlueAuthenticationError,
@@ -66,6 +66,86 @@ describe('Organizations resource', () => {
 
       expect(organizations).toHaveLength(4);
     });
+
+    it('should resume from a checkpoint', async () => {
+      const first = client.organizations.listAll({ sort: 'name' });
+      for await (const org of first) {
+        if (org.name === 'Acme Corp') {
+          break;
+        }
+      }
+
+      const resumed = await client.organizations
+        .listAll({ sort: 'name', resumeFrom: first.checkpoint() })
+        .toArray();
+
+      expect(resumed).toHaveLength(3);
+      expect(resumed[1].name).toBe('Fabrikam Inc');
+    });
+
+    it('should refuse a checkpoint taken with different params', async () => {
+      const first = client.organizations.listAll({ sort: 'name' });
+      await first[Symbol.asyncIterator]().next();
+
+      const resumed = client.organizations.listAll({
+        sort: '-name',
+        resumeFrom: first.checkpoint(),
+      });
+
+      await expect(resumed.toArray()).rejects.toThrow('params have changed');
+    });
+
+    it('should report progress and expose the live meta', async () => {
+      const pages: string[] = [];
+      const organizations = client.organizations.listAll(
+        {},
+        { onPage: (meta) => pages.push(`${meta.currentPage}/${meta.totalPages}`) }
+      );
+
+      expect(organizations.meta).toBeUndefined();
+      await organizations[Symbol.asyncIterator]().next();
+      expect(organizations.meta?.totalCount).toBe(4);
+
+      await organizations.toArray();
+      expect(pages).toEqual(['1/2', '2/2']);
+    });
+
+    it('should honour pageSize, startPage and maxItems', async () => {
+      const fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              data: [
+                { id: '1', type: 'organizations', attributes: { name: 'Acme Corp' } },
+                { id: '2', type: 'organizations', attributes: { name: 'Contoso' } },
+              ],
+              meta: { 'current-page': 3, 'next-page': 4, 'total-pages': 9, 'total-count': 9000 },
+            }),
+            { status: 200, headers: { 'Content-Type': 'application/vnd.api+json' } }
+          )
+      );
+      const pagedClient = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+      const organizations = await pagedClient.organizations
+        .listAll({}, { pageSize: 1000, startPage: 3, maxItems: 1 })
+        .toArray();
+
+      expect(organizations).toHaveLength(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      const url = new URL(fetch.mock.calls[0][0]);
+      expect(url.searchParams.get('page[size]')).toBe('1000');
+      expect(url.searchParams.get('page[number]')).toBe('3');
+    });
+  });
+
+  describe('listPages', () => {
+    it('should yield each page with its meta', async () => {
+      const pages = await client.organizations.listPages().toArray();
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].data.map((org) => org.name)).toEqual(['Acme Corp', 'Contoso Ltd']);
+      expect(pages[1].meta.currentPage).toBe(2);
+    });
   });
 
   describe('get', () => {
@@ -79,6 +159,24 @@ describe('Organizations resource', () => {
       expect(org.quickNotes).toBe('Important customer');
     });
 
+    it('should request sparse fieldsets', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({ data: { id: '1', type: 'organizations', attributes: { name: 'Acme Corp' } } }),
+          { status: 200, headers: { 'Content-Type': 'application/vnd.api+json' } }
+        )
+      );
+      const sparseClient = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+      const org = await sparseClient.organizations.get('1', {
+        fields: { organizations: ['name', 'shortName'] },
+      });
+
+      expect(org.name).toBe('Acme Corp');
+      const url = new URL(fetch.mock.calls[0][0]);
+      expect(url.searchParams.get('fields[organizations]')).toBe('name,short-name');
+    });
+
     it('should throw ITGlueNotFoundError for non-existent organization', async () => {
       await expect(client.organizations.get('999')).rejects.toThrow(
         ITGlueNotFoundError
@@ -223,3 +321,95 @@ describe('Organization Statuses resource', () => {
     });
   });
 });
+
+describe('Nested resource pagination', () => {
+  const pageFetch = () =>
+    vi.fn().mockImplementation(async (input: string) => {
+      const page = Number(new URL(input).searchParams.get('page[number]') ?? '1');
+      return new Response(
+        JSON.stringify({
+          data: [
+            { id: String(page * 2 - 1), type: 'domains', attributes: { name: `d${page}a.com` } },
+            { id: String(page * 2), type: 'domains', attributes: { name: `d${page}b.com` } },
+          ],
+          meta: {
+            'current-page': page,
+            'next-page': page < 2 ? page + 1 : null,
+            'total-pages': 2,
+            'total-count': 4,
+          },
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/vnd.api+json' } }
+      );
+    });
+
+  it('should iterate every item under a parent', async () => {
+    const fetch = pageFetch();
+    const client = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+    const domains = await client.domains.listAllByOrg(7).toArray();
+
+    expect(domains.map((domain) => domain.id)).toEqual(['1', '2', '3', '4']);
+    expect(new URL(fetch.mock.calls[0][0]).pathname).toBe(
+      '/organizations/7/relationships/domains'
+    );
+  });
+
+  it('should yield whole pages under a parent', async () => {
+    const fetch = pageFetch();
+    const client = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+    const pages = await client.attachments.listPages('configurations', 3).toArray();
+
+    expect(pages.map((page) => page.meta.currentPage)).toEqual([1, 2]);
+    expect(new URL(fetch.mock.calls[0][0]).pathname).toBe(
+      '/configurations/3/relationships/attachments'
+    );
+  });
+
+  it('should resume listAllByOrg from a checkpoint', async () => {
+    const fetch = pageFetch();
+    const client = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+    const first = client.locations.listAllByOrg(7, { sort: 'name' });
+    const iterator = first[Symbol.asyncIterator]();
+    await iterator.next();
+
+    const resumed = await client.locations
+      .listAllByOrg(7, { sort: 'name', resumeFrom: first.checkpoint() })
+      .toArray();
+    expect(resumed.map((location) => location.id)).toEqual(['2', '3', '4']);
+
+    const changed = client.locations.listAllByOrg(7, {
+      sort: '-name',
+      resumeFrom: first.checkpoint(),
+    });
+    await expect(changed.toArray()).rejects.toThrow('params have changed');
+  });
+
+  it('should build nested query params through the resource', async () => {
+    const fetch = pageFetch();
+    const client = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+    await client.passwords.listAllByOrg(7, { showPassword: true }).first();
+
+    expect(new URL(fetch.mock.calls[0][0]).searchParams.get('show_password')).toBe('true');
+  });
+
+  it('should resume a nested listing from a checkpoint', async () => {
+    const fetch = pageFetch();
+    const client = new ITGlueClient({ apiKey: 'ITG.test-api-key', region: 'us', fetch });
+
+    const first = client.regions.listAllByCountry(1);
+    const iterator = first[Symbol.asyncIterator]();
+    await iterator.next();
+    await iterator.next();
+    await iterator.next();
+
+    const resumed = await client.regions
+      .listAllByCountry(1, { resumeFrom: first.checkpoint() })
+      .toArray();
+
+    expect(resumed.map((region) => region.id)).toEqual(['4']);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for async iterable helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { withHelpers } from '../../src/async-iterable.js';
+import { createPaginatedIterator } from '../../src/pagination.js';
+
+/**
+ * Async iterable over numbers that records how many items were pulled
+ */
+function numbers(count: number) {
+  const state = { pulled: 0 };
+  const iterable = withHelpers({
+    async *[Symbol.asyncIterator]() {
+      for (let value = 1; value <= count; value++) {
+        state.pulled++;
+        yield value;
+      }
+    },
+  });
+  return { iterable, state };
+}
+
+describe('withHelpers', () => {
+  it('should chain lazy transforms without buffering the source', async () => {
+    const { iterable, state } = numbers(1000);
+
+    const result = await iterable
+      .filter((value) => value % 2 === 0)
+      .map(async (value) => value * 10)
+      .skip(1)
+      .take(3)
+      .toArray();
+
+    expect(result).toEqual([40, 60, 80]);
+    expect(state.pulled).toBe(8);
+  });
+
+  it('should narrow types with a filter type guard', async () => {
+    const mixed = withHelpers<string | number>({
+      async *[Symbol.asyncIterator]() {
+        yield* ['a', 1, 'b', 2];
+      },
+    });
+
+    const strings: string[] = await mixed
+      .filter((value): value is string => typeof value === 'string')
+      .toArray();
+
+    expect(strings).toEqual(['a', 'b']);
+  });
+
+  it('should chunk items and keep a short final chunk', async () => {
+    expect(await numbers(5).iterable.chunk(2).toArray()).toEqual([[1, 2], [3, 4], [5]]);
+    expect(() => numbers(5).iterable.chunk(0)).toThrow('Chunk size must be at least 1');
+  });
+
+  it('should flatten sync and async iterables from flatMap', async () => {
+    const result = await numbers(3)
+      .iterable.flatMap(async (value) => Array(value).fill(value))
+      .toArray();
+
+    expect(result).toEqual([1, 2, 2, 3, 3, 3]);
+  });
+
+  it('should consume the source for terminal helpers', async () => {
+    expect(await numbers(4).iterable.reduce((sum, value) => sum + value, 0)).toBe(10);
+    expect(await numbers(4).iterable.count()).toBe(4);
+    expect(await numbers(4).iterable.some((value) => value > 3)).toBe(true);
+    expect(await numbers(4).iterable.some((value) => value > 4)).toBe(false);
+
+    const groups = await numbers(5).iterable.groupBy((value) => (value % 2 ? 'odd' : 'even'));
+    expect([...groups]).toEqual([
+      ['odd', [1, 3, 5]],
+      ['even', [2, 4]],
+    ]);
+  });
+
+  it('should stop pulling once find or first has a result', async () => {
+    const found = numbers(100);
+    expect(await found.iterable.find((value) => value === 3)).toBe(3);
+    expect(found.state.pulled).toBe(3);
+
+    const first = numbers(100);
+    expect(await first.iterable.first()).toBe(1);
+    expect(first.state.pulled).toBe(1);
+    expect(await numbers(0).iterable.first()).toBeUndefined();
+  });
+
+  describe('mapConcurrent', () => {
+    it('should keep order while limiting callbacks in flight', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const result = await numbers(8).iterable.mapConcurrent(
+        async (value) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, (8 - value) * 2));
+          running--;
+          return value * 2;
+        },
+        { concurrency: 3 }
+      ).toArray();
+
+      expect(result).toEqual([2, 4, 6, 8, 10, 12, 14, 16]);
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should surface a failure at its position', async () => {
+      const seen: number[] = [];
+
+      await expect(async () => {
+        const mapped = numbers(5).iterable.mapConcurrent(
+          async (value) => {
+            if (value === 3) {
+              throw new Error('item 3 failed');
+            }
+            return value;
+          },
+          { concurrency: 2 }
+        );
+        for await (const value of mapped) {
+          seen.push(value);
+        }
+      }).rejects.toThrow('item 3 failed');
+      expect(seen).toEqual([1, 2]);
+    });
+
+    it('should stop pulling from the source when the consumer stops', async () => {
+      const { iterable, state } = numbers(100);
+
+      await iterable.mapConcurrent((value) => value, { concurrency: 4 }).take(2).toArray();
+
+      expect(state.pulled).toBeLessThanOrEqual(5);
+    });
+  });
+
+  it('should fetch a single page for first() on a paginated listing', async () => {
+    const fetcher = vi.fn().mockResolvedValue({
+      data: [{ id: '1' }, { id: '2' }],
+      meta: { currentPage: 1, nextPage: 2, prevPage: null, totalPages: 5, totalCount: 10 },
+    });
+
+    const item = await createPaginatedIterator(fetcher, { concurrency: 3 }).first();
+
+    expect(item).toEqual({ id: '1' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the response cache and cache stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getCacheScope, getCollection, ResponseCache } from '../../src/cache.js';
+import { FileCacheStore, MemoryCacheStore } from '../../src/cache-store.js';
+import { DEFAULT_CACHE_CONFIG } from '../../src/types/index.js';
+
+const entry = (value: unknown, expiresAt: number = Date.now() + 60000) => ({ value, expiresAt });
+
+describe('getCollection', () => {
+  it('should use the last non-id segment', () => {
+    expect(getCollection('/countries')).toBe('countries');
+    expect(getCollection('/countries/12')).toBe('countries');
+    expect(getCollection('/countries/12/relationships/regions')).toBe('regions');
+    expect(getCollection('/manufacturers/3/relationships/models/7')).toBe('models');
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  it('should delete entries by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('countries /countries', entry(1));
+    await store.set('regions /countries/1/relationships/regions', entry(2));
+
+    await store.deletePrefix('countries ');
+
+    expect(await store.get('countries /countries')).toBeUndefined();
+    expect(await store.get('regions /countries/1/relationships/regions')).toBeDefined();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itglue-cache-'));
+    filePath = join(dir, 'cache.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileCacheStore(filePath).set('countries /countries', entry({ data: [] }));
+
+    const reopened = new FileCacheStore(filePath);
+    expect((await reopened.get('countries /countries'))?.value).toEqual({ data: [] });
+  });
+
+  it('should drop expired entries when writing', async () => {
+    const store = new FileCacheStore(filePath);
+    await store.set('old', entry(1, Date.now() - 1));
+    await store.set('new', entry(2));
+
+    expect(Object.keys(JSON.parse(await readFile(filePath, 'utf8')))).toEqual(['new']);
+  });
+
+  it('should treat a corrupt file as empty', async () => {
+    await writeFile(filePath, 'not json');
+
+    expect(await new FileCacheStore(filePath).get('anything')).toBeUndefined();
+  });
+});
+
+describe('ResponseCache', () => {
+  const url = 'https://api.itglue.com/countries';
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only cache collections with a policy when enabled', () => {
+    const disabled = new ResponseCache(DEFAULT_CACHE_CONFIG, 'scope');
+    const enabled = new ResponseCache({ ...DEFAULT_CACHE_CONFIG, enabled: true }, 'scope');
+
+    expect(disabled.getPolicy('/countries')).toBeUndefined();
+    expect(enabled.getPolicy('/countries')).toEqual({ ttlMs: 86400000 });
+    expect(enabled.getPolicy('/organizations')).toBeUndefined();
+  });
+
+  it('should expire entries after the policy TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache(
+      {
+        ...DEFAULT_CACHE_CONFIG,
+        enabled: true,
+        policies: { countries: { ttlMs: 1000 } },
+      },
+      'scope'
+    );
+
+    await cache.write('/countries', url, { data: [] });
+    expect(await cache.read('/countries', url)).toEqual({ data: [] });
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.read('/countries', url)).toBeUndefined();
+  });
+
+  it('should not cache collections whose policy is disabled', () => {
+    const cache = new ResponseCache(
+      {
+        ...DEFAULT_CACHE_CONFIG,
+        enabled: true,
+        policies: { ...DEFAULT_CACHE_CONFIG.policies, countries: false },
+      },
+      'scope'
+    );
+
+    expect(cache.getPolicy('/countries')).toBeUndefined();
+  });
+
+  it('should treat store failures as misses', async () => {
+    const store = new MemoryCacheStore();
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('disk full'));
+    const cache = new ResponseCache({ ...DEFAULT_CACHE_CONFIG, enabled: true, store }, 'scope');
+
+    expect(await cache.read('/countries', url)).toBeUndefined();
+  });
+
+  it('should keep scopes apart in a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const config = { ...DEFAULT_CACHE_CONFIG, enabled: true, store };
+    const first = new ResponseCache(config, getCacheScope('ITG.first', 'https://api.itglue.com'));
+    const second = new ResponseCache(config, getCacheScope('ITG.second', 'https://api.itglue.com'));
+
+    await first.write('/countries', url, { data: [] });
+    await second.write('/countries', url, { data: [{ id: '1' }] });
+    await first.clear();
+
+    expect(await first.read('/countries', url)).toBeUndefined();
+    expect(await second.read('/countries', url)).toEqual({ data: [{ id: '1' }] });
+  });
+});
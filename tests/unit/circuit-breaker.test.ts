@@ -0,0 +1,100 @@
+/**
+ * Tests for the circuit breaker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/circuit-breaker.js';
+import {
+  ITGlueCircuitOpenError,
+  ITGlueNetworkError,
+  ITGlueNotFoundError,
+  ITGlueServerError,
+  ITGlueTimeoutError,
+} from '../../src/errors.js';
+import { DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../src/types/index.js';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  /**
+   * Run one attempt through the breaker with the given outcome
+   */
+  function attempt(error?: Error): void {
+    breaker.acquire();
+    breaker.record(error);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+      enabled: true,
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive server and network failures', () => {
+    attempt(new ITGlueServerError());
+    attempt(new ITGlueNetworkError());
+    expect(breaker.getState()).toBe('closed');
+
+    attempt(new ITGlueServerError());
+    expect(breaker.getState()).toBe('open');
+    expect(() => breaker.acquire('https://api.itglue.com/organizations', 'GET')).toThrow(
+      ITGlueCircuitOpenError
+    );
+  });
+
+  it('should reset the failure count when the API responds', () => {
+    attempt(new ITGlueServerError());
+    attempt(new ITGlueServerError());
+    attempt(new ITGlueNotFoundError());
+    attempt(new ITGlueServerError());
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('should ignore timeouts', () => {
+    attempt(new ITGlueServerError());
+    attempt(new ITGlueServerError());
+    attempt(new ITGlueTimeoutError('timed out', 10));
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+  });
+
+  it('should let one trial request through after the reset timeout', () => {
+    for (let i = 0; i < 3; i++) attempt(new ITGlueServerError());
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(ITGlueCircuitOpenError);
+
+    breaker.record();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should reopen when the trial request fails', () => {
+    for (let i = 0; i < 3; i++) attempt(new ITGlueServerError());
+    vi.advanceTimersByTime(1000);
+
+    attempt(new ITGlueNetworkError());
+
+    const status = breaker.getStatus();
+    expect(status.state).toBe('open');
+    expect(status.retryAt).toBe(Date.now() + 1000);
+  });
+
+  it('should never open when disabled', () => {
+    breaker = new CircuitBreaker(DEFAULT_CIRCUIT_BREAKER_CONFIG);
+    for (let i = 0; i < 10; i++) attempt(new ITGlueServerError());
+
+    expect(breaker.getState()).toBe('closed');
+  });
+});
@@ -7,10 +7,17 @@ import {
   validateApiKey,
   resolveBaseUrl,
   resolveRateLimitConfig,
+  resolveSchedulerConfig,
+  resolveRetryPolicy,
   resolveConfig,
   getHeaders,
 } from '../../src/config.js';
-import { REGION_URLS, DEFAULT_RATE_LIMIT_CONFIG } from '../../src/types/index.js';
+import {
+  REGION_URLS,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  DEFAULT_SCHEDULER_CONFIG,
+} from '../../src/types/index.js';
+import { Agent } from 'undici';
 
 describe('Configuration utilities', () => {
   describe('validateApiKey', () => {
@@ -109,6 +116,42 @@ describe('Configuration utilities', () => {
     });
   });
 
+  describe('resolveRetryPolicy', () => {
+    it('should take attempts and delay from the rate limiter config', () => {
+      const policy = resolveRetryPolicy(undefined, {
+        ...DEFAULT_RATE_LIMIT_CONFIG,
+        maxRetries: 7,
+        retryAfterMs: 250,
+      });
+
+      expect(policy.maxRetries).toBe(7);
+      expect(policy.baseDelayMs).toBe(250);
+      expect(policy.methods.POST).toEqual(['rateLimit']);
+    });
+
+    it('should merge method rules with the defaults', () => {
+      const policy = resolveRetryPolicy(
+        { methods: { POST: ['rateLimit', 'server'] } },
+        DEFAULT_RATE_LIMIT_CONFIG
+      );
+
+      expect(policy.methods.POST).toEqual(['rateLimit', 'server']);
+      expect(policy.methods.GET).toEqual(['rateLimit', 'server', 'network', 'timeout']);
+    });
+  });
+
+  describe('resolveSchedulerConfig', () => {
+    it('should return defaults when no config provided', () => {
+      expect(resolveSchedulerConfig()).toEqual(DEFAULT_SCHEDULER_CONFIG);
+    });
+
+    it('should throw for a concurrency below one', () => {
+      expect(() => resolveSchedulerConfig({ maxConcurrency: 0 })).toThrow(
+        'Scheduler maxConcurrency must be at least 1'
+      );
+    });
+  });
+
   describe('resolveConfig', () => {
     let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
 
@@ -150,6 +193,42 @@ describe('Configuration utilities', () => {
     it('should throw for missing API key', () => {
       expect(() => resolveConfig({ apiKey: '' })).toThrow();
     });
+
+    it('should use a custom fetch implementation', () => {
+      const fetch = vi.fn();
+      const config = resolveConfig({ apiKey: 'ITG.test123', fetch });
+
+      expect(config.fetch).toBe(fetch);
+    });
+
+    it('should keep the dispatcher', () => {
+      const dispatcher = new Agent();
+      const config = resolveConfig({ apiKey: 'ITG.test123', dispatcher });
+
+      expect(config.dispatcher).toBe(dispatcher);
+      expect(typeof config.fetch).toBe('function');
+    });
+
+    it('should preserve traits by default and accept a key transform override', () => {
+      expect(resolveConfig({ apiKey: 'ITG.test123' }).keyTransform).toEqual({
+        mode: 'camel',
+        preserve: ['traits'],
+      });
+      expect(
+        resolveConfig({ apiKey: 'ITG.test123', keyTransform: { mode: 'raw' } }).keyTransform
+      ).toEqual({ mode: 'raw', preserve: ['traits'] });
+    });
+
+    it('should leave coercion off by default', () => {
+      expect(resolveConfig({ apiKey: 'ITG.test123' }).coerce).toEqual({
+        dates: false,
+        ids: false,
+      });
+      expect(resolveConfig({ apiKey: 'ITG.test123', coerce: { dates: true } }).coerce).toEqual({
+        dates: true,
+        ids: false,
+      });
+    });
   });
 
   describe('getHeaders', () => {
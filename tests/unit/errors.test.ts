@@ -13,6 +13,7 @@ import {
   ITGlueNetworkError,
   ITGlueTimeoutError,
   createErrorFromResponse,
+  parseRetryAfter,
 } from '../../src/errors.js';
 
 describe('Error classes', () => {
@@ -211,6 +212,13 @@ describe('Error classes', () => {
       expect(error).toBeInstanceOf(ITGlueRateLimitError);
     });
 
+    it('should read Retry-After into ITGlueRateLimitError', () => {
+      const headers = new Headers({ 'Retry-After': '30' });
+      const error = createErrorFromResponse(429, {}, undefined, undefined, headers);
+
+      expect((error as ITGlueRateLimitError).retryAfter).toBe(30000);
+    });
+
     it('should create ITGlueServerError for 5xx', () => {
       const error500 = createErrorFromResponse(500, {});
       const error502 = createErrorFromResponse(502, {});
@@ -254,4 +262,25 @@ describe('Error classes', () => {
       expect(error.method).toBe('GET');
     });
   });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 60000).toUTCString();
+      const delay = parseRetryAfter(date);
+
+      expect(delay).toBeGreaterThan(58000);
+      expect(delay).toBeLessThanOrEqual(60000);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('')).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,701 @@
+/**
+ * Tests for the HTTP client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../../src/http.js';
+import { resolveConfig } from '../../src/config.js';
+import { MemoryCacheStore } from '../../src/cache-store.js';
+import { ConfigurationsResource } from '../../src/resources/configurations.js';
+import {
+  ITGlueAbortError,
+  ITGlueCircuitOpenError,
+  ITGlueNetworkError,
+  ITGlueNotFoundError,
+  ITGlueServerError,
+  ITGlueTimeoutError,
+} from '../../src/errors.js';
+import type { ITGlueClientConfig } from '../../src/types/index.js';
+
+/**
+ * Build a JSON:API response for the fetch test double
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/vnd.api+json' },
+  });
+}
+
+function createClient(config: Partial<ITGlueClientConfig> = {}): HttpClient {
+  return new HttpClient(resolveConfig({ apiKey: 'ITG.test-api-key', ...config }));
+}
+
+describe('HttpClient', () => {
+  describe('transport', () => {
+    it('should send requests through a custom fetch', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse({ data: { id: '1', type: 'organizations', attributes: { name: 'Acme' } } })
+      );
+      const client = createClient({ fetch });
+
+      const org = await client.getOne<{ name: string }>('/organizations/1');
+
+      expect(org.name).toBe('Acme');
+      expect(fetch).toHaveBeenCalledTimes(1);
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('https://api.itglue.com/organizations/1');
+      expect(init.method).toBe('GET');
+      expect(init.headers['x-api-key']).toBe('ITG.test-api-key');
+    });
+
+    it('should pass the dispatcher to fetch', async () => {
+      const dispatcher = { dispatch: vi.fn() } as unknown as ITGlueClientConfig['dispatcher'];
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const client = createClient({ fetch, dispatcher });
+
+      await client.delete('/organizations/1');
+
+      expect(fetch.mock.calls[0][1].dispatcher).toBe(dispatcher);
+    });
+  });
+
+  describe('middleware', () => {
+    const orgResponse = { data: { id: '1', type: 'organizations', attributes: { name: 'Acme' } } };
+
+    it('should run hooks in onion order', async () => {
+      const calls: string[] = [];
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(orgResponse));
+      const client = createClient({
+        fetch,
+        middleware: [
+          {
+            onRequest: () => { calls.push('a:request'); },
+            onResponse: () => { calls.push('a:response'); },
+          },
+        ],
+      });
+      client.use({
+        onRequest: () => { calls.push('b:request'); },
+        onResponse: () => { calls.push('b:response'); },
+      });
+
+      await client.getOne('/organizations/1');
+
+      expect(calls).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+    });
+
+    it('should expose and allow rewriting the request', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(orgResponse));
+      const seen: { body?: Record<string, unknown>; params?: Record<string, unknown> } = {};
+      const client = createClient({
+        fetch,
+        middleware: [
+          {
+            onRequest: (ctx) => {
+              seen.body = ctx.body;
+              seen.params = ctx.params;
+              ctx.headers['x-correlation-id'] = 'abc';
+              ctx.params = { ...ctx.params, include: 'locations' };
+            },
+          },
+        ],
+      });
+
+      await client.postAndDeserialize('/organizations', 'organizations', { name: 'Acme' }, { foo: 'bar' });
+
+      expect(seen.body).toEqual({ data: { type: 'organizations', attributes: { name: 'Acme' } } });
+      expect(seen.params).toEqual({ foo: 'bar' });
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('https://api.itglue.com/organizations?foo=bar&include=locations');
+      expect(init.headers['x-correlation-id']).toBe('abc');
+    });
+
+    it('should short-circuit with a response from onRequest', async () => {
+      const fetch = vi.fn();
+      const client = createClient({
+        fetch,
+        middleware: [{ onRequest: () => jsonResponse(orgResponse) }],
+      });
+
+      const org = await client.getOne<{ name: string }>('/organizations/1');
+
+      expect(org.name).toBe('Acme');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should let onResponse replace the response', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse({ errors: [] }, 404));
+      const client = createClient({
+        fetch,
+        middleware: [{ onResponse: () => jsonResponse(orgResponse) }],
+      });
+
+      const org = await client.getOne<{ name: string }>('/organizations/1');
+
+      expect(org.name).toBe('Acme');
+    });
+
+    it('should report failures to onError', async () => {
+      const onError = vi.fn();
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse({ errors: [] }, 404));
+      const client = createClient({ fetch, middleware: [{ onError }] });
+
+      await expect(client.getOne('/organizations/1')).rejects.toThrow(ITGlueNotFoundError);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'GET', path: '/organizations/1' }),
+        expect.any(ITGlueNotFoundError)
+      );
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should wait for Retry-After before retrying', async () => {
+      vi.useFakeTimers();
+      try {
+        const fetch = vi.fn()
+          .mockResolvedValueOnce(new Response(JSON.stringify({ errors: [] }), {
+            status: 429,
+            headers: { 'Retry-After': '2' },
+          }))
+          .mockResolvedValueOnce(jsonResponse({ data: [] }));
+        const client = createClient({ fetch });
+
+        const promise = client.list('/organizations');
+        await vi.advanceTimersByTimeAsync(1900);
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(200);
+        await promise;
+        expect(fetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should sync the rate limiter from response headers', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ data: [] }), {
+        headers: { 'X-RateLimit-Limit': '3000', 'X-RateLimit-Remaining': '100' },
+      }));
+      const client = createClient({ fetch });
+
+      await client.list('/organizations');
+
+      expect(client.getRateLimiter().getStatus().remaining).toBe(100);
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should pass the per-call priority to the scheduler', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse({ data: [] }));
+      const client = createClient({ fetch, scheduler: { maxConcurrency: 1 } });
+      const schedule = vi.spyOn(client.getScheduler(), 'schedule');
+
+      await client.list('/organizations', {}, { priority: 'background' });
+
+      expect(schedule.mock.calls[0][1]).toBe('background');
+    });
+
+    it('should hold requests beyond the concurrency limit', async () => {
+      const releases: Array<() => void> = [];
+      const fetch = vi.fn().mockImplementation(
+        () => new Promise<Response>((resolve) => {
+          releases.push(() => resolve(jsonResponse({ data: [] })));
+        })
+      );
+      const client = createClient({ fetch, scheduler: { maxConcurrency: 1 } });
+
+      const first = client.list('/organizations');
+      const second = client.list('/organizations', {}, { priority: 'interactive' });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+      expect(client.getScheduler().getStatus()).toMatchObject({ active: 1, queued: 1 });
+
+      releases[0]();
+      await first;
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+      releases[1]();
+      await second;
+    });
+  });
+
+  describe('call options', () => {
+    it('should send extra headers', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ data: [] }));
+      const client = createClient({ fetch });
+
+      await client.list('/organizations', {}, { headers: { 'X-Request-Id': 'abc' } });
+
+      expect(fetch.mock.calls[0][1].headers['X-Request-Id']).toBe('abc');
+    });
+
+    it('should apply a per-call timeout', async () => {
+      const fetch = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            reject(new DOMException('Aborted', 'AbortError'));
+          });
+        })
+      );
+      const client = createClient({ fetch });
+
+      await expect(
+        client.list('/organizations', {}, { timeout: 10, retry: { maxRetries: 0 } })
+      ).rejects.toBeInstanceOf(ITGlueTimeoutError);
+    });
+
+    it('should honor per-call retry overrides', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ errors: [] }, 500));
+      const client = createClient({ fetch });
+
+      await expect(
+        client.list('/organizations', {}, { retry: { maxRetries: 0 } })
+      ).rejects.toBeInstanceOf(ITGlueServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      const fetch = vi.fn();
+      const client = createClient({ fetch });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.list('/organizations', {}, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ITGlueAbortError);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort an in-flight request', async () => {
+      const fetch = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            reject(new DOMException('Aborted', 'AbortError'));
+          });
+        })
+      );
+      const onError = vi.fn();
+      const client = createClient({ fetch, middleware: [{ onError }] });
+      const controller = new AbortController();
+
+      const promise = client.list('/organizations', {}, { signal: controller.signal });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      controller.abort('user navigated away');
+
+      const error = await promise.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ITGlueAbortError);
+      expect((error as ITGlueAbortError).reason).toBe('user navigated away');
+      expect(onError).toHaveBeenCalledWith(expect.anything(), error);
+    });
+
+    it('should stop waiting between retries when aborted', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ errors: [] }, 503));
+      const client = createClient({ fetch, rateLimiter: { retryAfterMs: 60000 } });
+      const controller = new AbortController();
+
+      const promise = client.list('/organizations', {}, { signal: controller.signal });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(ITGlueAbortError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retry policy', () => {
+    const retry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+    it('should retry network errors on GET', async () => {
+      const fetch = vi.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse({ data: [] }));
+      const client = createClient({ fetch, retry });
+
+      await client.list('/organizations');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry server errors on POST by default', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ errors: [] }, 502));
+      const client = createClient({ fetch, retry });
+
+      await expect(
+        client.post('/organizations', 'organizations', { name: 'Acme' })
+      ).rejects.toBeInstanceOf(ITGlueServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry POST when the policy opts in', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ errors: [] }, 502))
+        .mockResolvedValueOnce(jsonResponse({ data: { id: '1', type: 'organizations' } }));
+      const client = createClient({
+        fetch,
+        retry: { ...retry, methods: { POST: ['rateLimit', 'server'] } },
+      });
+
+      await client.post('/organizations', 'organizations', { name: 'Acme' });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let a call choose which failures to retry', async () => {
+      const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+      const client = createClient({ fetch, retry });
+
+      await expect(
+        client.list('/organizations', {}, { retry: { retryOn: ['server'] } })
+      ).rejects.toBeInstanceOf(ITGlueNetworkError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report each retry', async () => {
+      const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+      const onRetry = vi.fn();
+      const client = createClient({ fetch, retry: { ...retry, maxRetries: 2, onRetry } });
+
+      await expect(client.list('/organizations')).rejects.toBeInstanceOf(ITGlueNetworkError);
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toMatchObject({
+        method: 'GET',
+        path: '/organizations',
+        attempt: 2,
+        kind: 'network',
+      });
+      expect(onRetry.mock.calls[1][0].error).toBeInstanceOf(ITGlueNetworkError);
+    });
+
+    it('should give up when the next retry would pass the deadline', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ errors: [] }, 503));
+      const client = createClient({
+        fetch,
+        retry: { baseDelayMs: 1000, maxDelayMs: 1000, deadlineMs: 500 },
+      });
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+      try {
+        await expect(client.list('/organizations')).rejects.toBeInstanceOf(ITGlueServerError);
+        expect(fetch).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('should abort an attempt still in flight at the deadline', async () => {
+      const fetch = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('The operation was aborted', 'AbortError'))
+            );
+          })
+      );
+      const client = createClient({ fetch, timeout: 10000, retry: { deadlineMs: 50 } });
+
+      const error = await client.list('/organizations').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ITGlueTimeoutError);
+      expect((error as ITGlueTimeoutError).timeout).toBe(50);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should fail fast once consecutive failures open the circuit', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse({ errors: [] }, 503));
+      const client = createClient({
+        fetch,
+        retry: { maxRetries: 0 },
+        circuitBreaker: { enabled: true, failureThreshold: 2 },
+      });
+
+      await expect(client.list('/organizations')).rejects.toBeInstanceOf(ITGlueServerError);
+      await expect(client.list('/organizations')).rejects.toBeInstanceOf(ITGlueServerError);
+      await expect(client.list('/organizations')).rejects.toBeInstanceOf(ITGlueCircuitOpenError);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(client.getCircuitBreaker().getStatus().state).toBe('open');
+    });
+
+    it('should not count responses served by middleware', async () => {
+      const fetch = vi.fn();
+      const client = createClient({
+        fetch,
+        circuitBreaker: { enabled: true, failureThreshold: 1 },
+        middleware: [{ onRequest: () => jsonResponse({ errors: [] }, 500) }],
+      });
+
+      await expect(
+        client.list('/organizations', {}, { retry: { maxRetries: 0 } })
+      ).rejects.toBeInstanceOf(ITGlueServerError);
+
+      expect(client.getCircuitBreaker().getStatus().state).toBe('closed');
+    });
+  });
+
+  describe('response cache', () => {
+    const countries = { data: [{ id: '1', type: 'countries', attributes: { name: 'Canada' } }] };
+
+    it('should serve lookup collections from the cache', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(countries));
+      const client = createClient({ fetch, cache: { enabled: true } });
+
+      await client.list('/countries');
+      const { data } = await client.list<{ name: string }>('/countries');
+
+      expect(data[0].name).toBe('Canada');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache collections without a policy', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse({ data: [] }));
+      const client = createClient({ fetch, cache: { enabled: true } });
+
+      await client.list('/organizations');
+      await client.list('/organizations');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bypass the cache when a call opts out', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(countries));
+      const client = createClient({ fetch, cache: { enabled: true } });
+
+      await client.list('/countries');
+      await client.list('/countries', {}, { cache: false });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate the collection after a mutation', async () => {
+      const fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) =>
+        init.method === 'GET'
+          ? jsonResponse({ data: [] })
+          : jsonResponse({ data: { id: '5', type: 'configuration-types' } })
+      );
+      const client = createClient({ fetch, cache: { enabled: true } });
+
+      await client.list('/configuration_types');
+      await client.patch('/configuration_types/5', 'configuration-types', '5', { name: 'Server' });
+      await client.list('/configuration_types');
+
+      expect(fetch.mock.calls.map(([, init]) => init.method)).toEqual(['GET', 'PATCH', 'GET']);
+    });
+
+    it('should drop responses cached while a mutation was in flight', async () => {
+      let finishPatch: (() => void) | undefined;
+      const fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        if (init.method === 'GET') {
+          return jsonResponse({ data: [] });
+        }
+        await new Promise<void>((resolve) => (finishPatch = resolve));
+        return jsonResponse({ data: { id: '5', type: 'configuration-types' } });
+      });
+      const client = createClient({ fetch, cache: { enabled: true } });
+
+      const patch = client.patch('/configuration_types/5', 'configuration-types', '5', {
+        name: 'Server',
+      });
+      await vi.waitFor(() => expect(finishPatch).toBeDefined());
+      await client.list('/configuration_types');
+      finishPatch?.();
+      await patch;
+      await client.list('/configuration_types');
+
+      expect(fetch.mock.calls.map(([, init]) => init.method)).toEqual(['PATCH', 'GET', 'GET']);
+    });
+
+    it('should keep responses for different API keys apart in a shared store', async () => {
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(countries));
+      const store = new MemoryCacheStore();
+
+      await createClient({ fetch, cache: { enabled: true, store } }).list('/countries');
+      await createClient({
+        fetch,
+        apiKey: 'ITG.other-api-key',
+        cache: { enabled: true, store },
+      }).list('/countries');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('bulk requests', () => {
+    it('should send an array payload with ids inside the attributes', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse({
+          data: [{ id: '1', type: 'configurations', attributes: { archived: true } }],
+        })
+      );
+      const client = createClient({ fetch });
+
+      const updated = await client.bulk('PATCH', '/configurations', 'configurations', [
+        { id: 1, archived: true },
+      ]);
+
+      expect(updated).toEqual([{ id: '1', type: 'configurations', archived: true }]);
+      const [, init] = fetch.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({
+        data: [{ type: 'configurations', attributes: { id: 1, archived: true } }],
+      });
+    });
+
+    it('should send a body with bulk deletes', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const client = createClient({ fetch });
+
+      const result = await new ConfigurationsResource(client).bulkDestroy([1, 2]);
+
+      expect(result).toEqual({ succeeded: [1, 2], failed: [] });
+      const [, init] = fetch.mock.calls[0];
+      expect(init.method).toBe('DELETE');
+      expect(JSON.parse(init.body)).toEqual({
+        data: [
+          { type: 'configurations', attributes: { id: 1 } },
+          { type: 'configurations', attributes: { id: 2 } },
+        ],
+      });
+    });
+
+    it('should chunk items and report failed batches', async () => {
+      const fetch = vi
+        .fn()
+        .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+          const { data } = JSON.parse(String(init.body));
+          return jsonResponse({
+            data: data.map((item: { attributes: { id: number } }) => ({
+              id: String(item.attributes.id),
+              type: 'configurations',
+              attributes: { archived: true },
+            })),
+          });
+        })
+        .mockResolvedValueOnce(
+          jsonResponse({ errors: [{ status: '404', title: 'Not Found' }] }, 404)
+        );
+      const client = createClient({ fetch });
+
+      const result = await new ConfigurationsResource(client).bulkUpdate(
+        [1, 2, 3].map((id) => ({ id, archived: true })),
+        { chunkSize: 2 }
+      );
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.succeeded.map((config) => config.id)).toEqual(['1', '2']);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].index).toBe(2);
+      expect(result.failed[0].item).toEqual({ id: 3, archived: true });
+      expect(result.failed[0].error).toBeInstanceOf(ITGlueNotFoundError);
+    });
+
+    it('should not echo fetched relationships in updates', async () => {
+      const fetch = vi.fn().mockImplementation(async () =>
+        jsonResponse({
+          data: {
+            id: '1',
+            type: 'configurations',
+            attributes: { name: 'Server' },
+            relationships: {
+              organization: { data: { id: '10', type: 'organizations' } },
+              location: { data: null },
+            },
+          },
+        })
+      );
+      const configurations = new ConfigurationsResource(createClient({ fetch }));
+
+      const config = await configurations.get(1);
+      await configurations.update(1, { ...config, name: 'Renamed' });
+      await configurations.bulkUpdate([{ ...config, archived: true }]);
+
+      const [update, bulk] = fetch.mock.calls
+        .slice(1)
+        .map(([, init]) => JSON.parse(init.body));
+      expect(update.data.relationships).toBeUndefined();
+      expect(update.data.attributes).toEqual({ name: 'Renamed' });
+      expect(bulk.data[0].relationships).toBeUndefined();
+    });
+
+    it('should send all items in one request unless chunkSize is set', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const ids = Array.from({ length: 250 }, (_, index) => index + 1);
+
+      const result = await new ConfigurationsResource(createClient({ fetch })).bulkDestroy(ids);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fetch.mock.calls[0][1].body).data).toHaveLength(250);
+      expect(result.succeeded).toEqual(ids);
+    });
+  });
+
+  describe('raw responses', () => {
+    it('should attach the response details to a resource call', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            data: [{ id: '1', type: 'configurations', attributes: { name: 'web-1' } }],
+            meta: { 'current-page': 1, 'total-count': 1, 'filtered-count': 1 },
+            links: { self: 'https://api.itglue.com/configurations?page[number]=1', next: null },
+          }),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/vnd.api+json',
+              'X-Request-Id': 'req-123',
+              'X-RateLimit-Remaining': '2999',
+            },
+          }
+        )
+      );
+      const configurations = new ConfigurationsResource(createClient({ fetch }));
+
+      const response = await configurations.withResponse().list();
+
+      expect(response.data.data[0].name).toBe('web-1');
+      expect(response.status).toBe(200);
+      expect(response.requestId).toBe('req-123');
+      expect(response.headers.get('x-ratelimit-remaining')).toBe('2999');
+      expect(response.meta).toEqual({ currentPage: 1, totalCount: 1, filteredCount: 1 });
+      expect(response.links?.next).toBeNull();
+      expect(response.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep the default return values unchanged', async () => {
+      const fetch = vi.fn().mockImplementation(async () =>
+        jsonResponse({ data: { id: '1', type: 'configurations', attributes: { name: 'web-1' } } })
+      );
+      const configurations = new ConfigurationsResource(createClient({ fetch }));
+
+      const viaView = await configurations.withResponse().get(1);
+      const plain = await configurations.get(1);
+
+      expect(viaView.data).toEqual(plain);
+      expect(plain).not.toHaveProperty('headers');
+    });
+
+    it('should report status 204 for a delete', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const configurations = new ConfigurationsResource(createClient({ fetch }));
+
+      const response = await configurations.withResponse().delete(1);
+
+      expect(response.data).toBeUndefined();
+      expect(response.status).toBe(204);
+    });
+
+    it('should fetch cached collections from the network', async () => {
+      const countries = { data: [{ id: '1', type: 'countries', attributes: { name: 'Canada' } }] };
+      const fetch = vi.fn().mockImplementation(async () => jsonResponse(countries));
+      const client = createClient({ fetch, cache: { enabled: true } });
+      const details: number[] = [];
+
+      await client.list('/countries');
+      await client.observe(({ status }) => details.push(status)).list('/countries');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(details).toEqual([200]);
+    });
+  });
+});
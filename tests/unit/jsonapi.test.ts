@@ -2,7 +2,7 @@
  * Tests for JSON:API serialization/deserialization
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   kebabToCamel,
   camelToKebab,
@@ -10,10 +10,32 @@ import {
   convertKeysToKebab,
   deserialize,
   serialize,
+  serializeBulk,
   buildQueryParams,
   buildFilterParams,
 } from '../../src/jsonapi.js';
 
+const circularResponse = () => ({
+  data: {
+    id: '123',
+    type: 'organizations',
+    attributes: { name: 'Acme' },
+    relationships: {
+      locations: { data: [{ id: '456', type: 'locations' }] },
+    },
+  },
+  included: [
+    {
+      id: '456',
+      type: 'locations',
+      attributes: { city: 'Denver' },
+      relationships: {
+        organization: { data: { id: '123', type: 'organizations' } },
+      },
+    },
+  ],
+});
+
 describe('JSON:API utilities', () => {
   describe('kebabToCamel', () => {
     it('should convert kebab-case to camelCase', () => {
@@ -235,6 +257,93 @@ describe('JSON:API utilities', () => {
         name: 'Main Office',
       });
     });
+
+    it('should hydrate relationships from included resources', () => {
+      const response = {
+        data: [
+          {
+            id: '123',
+            type: 'organizations',
+            attributes: { name: 'Acme' },
+            relationships: {
+              locations: {
+                data: [
+                  { id: '456', type: 'locations' },
+                  { id: '999', type: 'locations' },
+                ],
+              },
+              'organization-type': { data: { id: '7', type: 'organization-types' } },
+            },
+          },
+        ],
+        included: [
+          {
+            id: '456',
+            type: 'locations',
+            attributes: { city: 'Denver' },
+            relationships: {
+              organization: { data: { id: '123', type: 'organizations' } },
+            },
+          },
+        ],
+      };
+
+      const result = deserialize<Record<string, any>>(response);
+      const org = (result.data as Record<string, any>[])[0];
+
+      expect(org.locations).toHaveLength(1);
+      expect(org.locations[0].city).toBe('Denver');
+      expect(org.locations[0].organization).toBe(org);
+      expect(org.organizationType).toBeUndefined();
+      expect(org.relationships.locations).toHaveLength(2);
+      expect(result.included?.[0]).toBe(org.locations[0]);
+    });
+
+    it('should keep hydrated resources out of JSON output', () => {
+      const result = deserialize<Record<string, any>>(circularResponse());
+      const org = result.data as Record<string, any>;
+
+      expect(org.locations[0].organization).toBe(org);
+      expect(() => JSON.stringify(org)).not.toThrow();
+      expect(JSON.parse(JSON.stringify(org))).toEqual({
+        id: '123',
+        type: 'organizations',
+        name: 'Acme',
+        relationships: { locations: [{ id: '456', type: 'locations' }] },
+      });
+    });
+
+    it('should serialize a hydrated resource back for an update', () => {
+      const result = deserialize<Record<string, any>>(circularResponse());
+      const org = result.data as Record<string, any>;
+      org.name = 'Acme Corp';
+
+      const { data } = serialize('organizations', org, '123');
+
+      expect(data.attributes).toEqual({ name: 'Acme Corp' });
+      expect(data.relationships).toBeUndefined();
+
+      const copied = serialize('organizations', { ...org, locations: org.locations }, '123');
+      expect(copied.data.attributes).toEqual({ name: 'Acme Corp' });
+    });
+
+    it('should not overwrite attributes when hydrating', () => {
+      const response = {
+        data: {
+          id: '1',
+          type: 'locations',
+          attributes: { region: 'West' },
+          relationships: {
+            region: { data: { id: '2', type: 'regions' } },
+          },
+        },
+        included: [{ id: '2', type: 'regions', attributes: { name: 'Colorado' } }],
+      };
+
+      const result = deserialize<Record<string, unknown>>(response);
+
+      expect((result.data as Record<string, unknown>).region).toBe('West');
+    });
   });
 
   describe('serialize', () => {
@@ -296,6 +405,249 @@ describe('JSON:API utilities', () => {
     });
   });
 
+  describe('serialize relationships', () => {
+    it('should emit links to existing resources', () => {
+      const result = serialize('flexible-assets', {
+        traits: { name: 'Firewall' },
+        relationships: {
+          tags: [{ type: 'configurations', id: 12 }],
+          contact: { type: 'contacts', id: '7' },
+          location: null,
+        },
+      });
+
+      expect(result.data.attributes).toEqual({ traits: { name: 'Firewall' } });
+      expect(result.data.relationships).toEqual({
+        tags: { data: [{ type: 'configurations', id: '12' }] },
+        contact: { data: { type: 'contacts', id: '7' } },
+        location: { data: null },
+      });
+    });
+
+    it('should side-post new child resources', () => {
+      const result = serialize('configurations', {
+        name: 'Server',
+        relationships: {
+          configurationInterfaces: [
+            {
+              type: 'configuration-interfaces',
+              attributes: { ipAddress: '10.0.0.1', primary: true },
+            },
+          ],
+        },
+      });
+
+      expect(result.data).toEqual({
+        type: 'configurations',
+        attributes: { name: 'Server' },
+        relationships: {
+          'configuration-interfaces': {
+            data: [
+              {
+                type: 'configuration-interfaces',
+                attributes: { 'ip-address': '10.0.0.1', primary: true },
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it('should not send back relationships read from a response', () => {
+      const { data } = deserialize<Record<string, unknown>>({
+        data: {
+          id: '1',
+          type: 'configurations',
+          attributes: { name: 'Server' },
+          relationships: {
+            organization: { data: { id: '10', type: 'organizations' } },
+            location: { data: null },
+            passwords: { data: [{ id: '5', type: 'passwords' }] },
+          },
+        },
+      });
+
+      const single = serialize('configurations', { ...data, name: 'Renamed' }, '1');
+      const bulk = serializeBulk('configurations', [{ ...data, archived: true }]);
+
+      expect(single.data).toEqual({
+        type: 'configurations',
+        id: '1',
+        attributes: { name: 'Renamed' },
+      });
+      expect(bulk.data).toEqual([
+        { type: 'configurations', attributes: { id: '1', name: 'Server', archived: true } },
+      ]);
+    });
+
+    it('should send relationships replacing those read from a response', () => {
+      const { data } = deserialize<Record<string, unknown>>({
+        data: {
+          id: '1',
+          type: 'configurations',
+          attributes: { name: 'Server' },
+          relationships: { location: { data: { id: '3', type: 'locations' } } },
+        },
+      });
+
+      const result = serialize(
+        'configurations',
+        { ...data, relationships: { location: { type: 'locations', id: 4 } } },
+        '1'
+      );
+
+      expect(result.data.relationships).toEqual({
+        location: { data: { type: 'locations', id: '4' } },
+      });
+    });
+  });
+
+  describe('key transform policy', () => {
+    const asset = {
+      data: {
+        id: '9',
+        type: 'flexible-assets',
+        attributes: {
+          'flexible-asset-type-id': 3,
+          traits: { 'server-name-2': 'web01', ip_address: '10.0.0.1' },
+        },
+      },
+    };
+
+    it('should keep trait keys verbatim through a get, modify and update cycle', () => {
+      const result = deserialize<{ traits: Record<string, unknown> }>(asset);
+      const { traits } = result.data as { traits: Record<string, unknown> };
+
+      expect(traits).toEqual({ 'server-name-2': 'web01', ip_address: '10.0.0.1' });
+
+      const updated = { traits: { ...traits, 'server-name-2': 'web02' } };
+      const body = serialize('flexible-assets', updated, '9');
+
+      expect(body.data.attributes).toEqual({
+        traits: { 'server-name-2': 'web02', ip_address: '10.0.0.1' },
+      });
+    });
+
+    it('should convert preserved attributes when the list is emptied', () => {
+      const result = deserialize(asset, { mode: 'camel', preserve: [] });
+
+      expect((result.data as Record<string, unknown>).traits).toEqual({
+        'serverName-2': 'web01',
+        ip_address: '10.0.0.1',
+      });
+    });
+
+    it('should leave every key untouched in raw mode', () => {
+      const raw = { mode: 'raw' as const, preserve: [] };
+      const result = deserialize(asset, raw);
+
+      expect(result.data).toEqual({
+        id: '9',
+        type: 'flexible-assets',
+        'flexible-asset-type-id': 3,
+        traits: { 'server-name-2': 'web01', ip_address: '10.0.0.1' },
+      });
+      const body = serialize('flexible-assets', { 'flexible-asset-type-id': 3 }, undefined, raw);
+      expect(body).toEqual({
+        data: { type: 'flexible-assets', attributes: { 'flexible-asset-type-id': 3 } },
+      });
+    });
+  });
+
+  describe('coercion', () => {
+    const configuration = {
+      data: {
+        id: '42',
+        type: 'configurations',
+        attributes: {
+          name: 'web-1',
+          'created-at': '2024-03-05T10:15:00.000Z',
+          'warranty-expires-at': '2026-01-31',
+          'installed-at': null,
+          'serial-number': '2024-03-05',
+        },
+      },
+    };
+    const transform = { mode: 'camel' as const, preserve: [] };
+
+    it('should leave values as sent by default', () => {
+      const { data } = deserialize<Record<string, unknown>>(configuration);
+
+      expect(data).toMatchObject({ id: '42', createdAt: '2024-03-05T10:15:00.000Z' });
+    });
+
+    it('should convert known date attributes and numeric ids when enabled', () => {
+      const { data } = deserialize<Record<string, unknown>>(configuration, transform, {
+        dates: true,
+        ids: true,
+      });
+
+      expect(data).toEqual({
+        id: 42,
+        type: 'configurations',
+        name: 'web-1',
+        createdAt: new Date('2024-03-05T10:15:00.000Z'),
+        warrantyExpiresAt: new Date(2026, 0, 31),
+        installedAt: null,
+        serialNumber: '2024-03-05',
+      });
+    });
+
+    it('should keep non-numeric ids as strings', () => {
+      const { data } = deserialize<Record<string, unknown>>(
+        { data: { id: 'abc', type: 'exports' } },
+        transform,
+        { dates: false, ids: true }
+      );
+
+      expect((data as Record<string, unknown>).id).toBe('abc');
+    });
+
+    it('should serialize dates in the format each attribute expects', () => {
+      const body = serialize('configurations', {
+        warrantyExpiresAt: new Date(2026, 0, 31),
+        updatedAt: new Date('2024-03-05T10:15:00.000Z'),
+      });
+
+      expect(body.data.attributes).toEqual({
+        'warranty-expires-at': '2026-01-31',
+        'updated-at': '2024-03-05T10:15:00.000Z',
+      });
+    });
+
+    describe.each(['America/Los_Angeles', 'Pacific/Auckland'])('in %s', (timeZone) => {
+      const originalTimeZone = process.env.TZ;
+
+      beforeEach(() => {
+        process.env.TZ = timeZone;
+      });
+
+      afterEach(() => {
+        if (originalTimeZone === undefined) {
+          delete process.env.TZ;
+        } else {
+          process.env.TZ = originalTimeZone;
+        }
+      });
+
+      it('should keep date-only attributes on the same calendar day', () => {
+        const { data } = deserialize<Record<string, Date>>(configuration, transform, {
+          dates: true,
+          ids: false,
+        });
+        const fetched = data as Record<string, Date>;
+
+        expect(fetched.warrantyExpiresAt.getDate()).toBe(31);
+        expect(
+          serialize('configurations', {
+            warrantyExpiresAt: fetched.warrantyExpiresAt,
+            dueDate: new Date(2026, 1, 1),
+          }).data.attributes
+        ).toEqual({ 'warranty-expires-at': '2026-01-31', 'due-date': '2026-02-01' });
+      });
+    });
+  });
+
   describe('buildQueryParams', () => {
     it('should build basic query params', () => {
       const params = {
@@ -309,6 +661,32 @@ describe('JSON:API utilities', () => {
       expect(result.get('include')).toBe('locations');
     });
 
+    it('should join multiple sort and include keys', () => {
+      const params = {
+        sort: ['-updated_at', 'name'],
+        include: ['configuration_interfaces', 'related_items'],
+      };
+
+      const result = buildQueryParams(params);
+
+      expect(result.get('sort')).toBe('-updated_at,name');
+      expect(result.get('include')).toBe('configuration_interfaces,related_items');
+    });
+
+    it('should serialize sparse fieldsets with kebab-case field names', () => {
+      const params = {
+        fields: {
+          configurations: ['name', 'updatedAt'],
+          'configuration-types': ['name'],
+        },
+      };
+
+      const result = buildQueryParams(params);
+
+      expect(result.get('fields[configurations]')).toBe('name,updated-at');
+      expect(result.get('fields[configuration-types]')).toBe('name');
+    });
+
     it('should handle nested objects (filter)', () => {
       const params = {
         filter: {
@@ -394,6 +772,64 @@ describe('JSON:API utilities', () => {
       });
     });
 
+    it('should serialize between as a comma range', () => {
+      const result = buildFilterParams({
+        updatedAt: { between: ['2024-01-01', '2024-06-30'] },
+      });
+
+      expect(result).toEqual({ updatedAt: '2024-01-01,2024-06-30' });
+    });
+
+    it('should serialize in and plain arrays as comma-separated lists', () => {
+      const result = buildFilterParams({
+        id: { in: [1, 2, 3] },
+        organizationId: [10, 20],
+      });
+
+      expect(result).toEqual({ id: '1,2,3', organizationId: '10,20' });
+    });
+
+    it('should serialize notIn as exclude parameters', () => {
+      const result = buildFilterParams({
+        name: 'Acme',
+        id: { notIn: [4, 5] },
+        organizationTypeId: { notIn: [7] },
+      });
+
+      expect(result).toEqual({
+        name: 'Acme',
+        exclude: { id: '4,5', organizationTypeId: '7' },
+      });
+
+      const query = buildQueryParams({ filter: result });
+      expect(query.get('filter[exclude][id]')).toBe('4,5');
+      expect(query.get('filter[exclude][organization-type-id]')).toBe('7');
+    });
+
+    it('should serialize Date inputs as ISO strings', () => {
+      const start = new Date('2024-01-01T00:00:00.000Z');
+      const end = new Date('2024-02-01T00:00:00.000Z');
+
+      const result = buildFilterParams({
+        createdAt: start,
+        updatedAt: { gte: start, lt: end },
+        expirationDate: { between: [start, end] },
+      });
+
+      expect(result).toEqual({
+        createdAt: '2024-01-01T00:00:00.000Z',
+        'updatedAt[gte]': '2024-01-01T00:00:00.000Z',
+        'updatedAt[lt]': '2024-02-01T00:00:00.000Z',
+        expirationDate: '2024-01-01T00:00:00.000Z,2024-02-01T00:00:00.000Z',
+      });
+    });
+
+    it('should reject between and in on the same field', () => {
+      expect(() => buildFilterParams({ id: { between: [1, 5], in: [7, 8] } })).toThrow(
+        'Filter "id" cannot combine "between" and "in"'
+      );
+    });
+
     it('should handle undefined filter', () => {
       const result = buildFilterParams(undefined);
       expect(result).toEqual({});
@@ -8,9 +8,11 @@ import {
   createPageIterator,
   collectAll,
   take,
+  hashParams,
   DEFAULT_PAGE_SIZE,
   MAX_PAGE_SIZE,
 } from '../../src/pagination.js';
+import { ITGlueCheckpointError } from '../../src/errors.js';
 import type { PaginatedResponse } from '../../src/types/index.js';
 
 describe('Pagination utilities', () => {
@@ -97,6 +99,252 @@ describe('Pagination utilities', () => {
 
       expect(fetcher).toHaveBeenCalledWith({ number: 1, size: MAX_PAGE_SIZE });
     });
+
+    it('should stop without an error when the signal aborts', async () => {
+      const controller = new AbortController();
+      const fetcher = vi.fn()
+        .mockResolvedValueOnce({
+          data: [{ id: '1' }, { id: '2' }],
+          meta: { currentPage: 1, nextPage: 2, prevPage: null, totalPages: 2, totalCount: 4 },
+        })
+        .mockResolvedValueOnce({
+          data: [{ id: '3' }, { id: '4' }],
+          meta: { currentPage: 2, nextPage: null, prevPage: 1, totalPages: 2, totalCount: 4 },
+        });
+
+      const results: { id: string }[] = [];
+      for await (const item of createPaginatedIterator(fetcher, { signal: controller.signal })) {
+        results.push(item as { id: string });
+        controller.abort();
+      }
+
+      expect(results.map((r) => r.id)).toEqual(['1']);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should swallow the fetch failure caused by an abort', async () => {
+      const controller = new AbortController();
+      const fetcher = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new Error('aborted');
+      });
+
+      const iterator = createPaginatedIterator(fetcher, { signal: controller.signal });
+
+      await expect(iterator.toArray()).resolves.toEqual([]);
+    });
+  });
+
+  describe('checkpoints', () => {
+    /**
+     * Serve pages of two items from a list of ids
+     */
+    function pagedFetcher(ids: string[]) {
+      return vi.fn(async ({ number = 1, size = 2 }: { number?: number; size?: number }) => {
+        const totalPages = Math.ceil(ids.length / size);
+        return {
+          data: ids.slice((number - 1) * size, number * size).map((id) => ({ id })),
+          meta: {
+            currentPage: number,
+            nextPage: number < totalPages ? number + 1 : null,
+            prevPage: number > 1 ? number - 1 : null,
+            totalPages,
+            totalCount: ids.length,
+          },
+        };
+      });
+    }
+
+    async function takeIds(iterable: AsyncIterable<{ id: string }>, count: number) {
+      const ids: string[] = [];
+      for await (const item of iterable) {
+        ids.push(item.id);
+        if (ids.length === count) {
+          break;
+        }
+      }
+      return ids;
+    }
+
+    it('should record the position after the last item yielded', async () => {
+      const iterator = createPaginatedIterator(pagedFetcher(['1', '2', '3', '4', '5']), {
+        pageSize: 2,
+        filterHash: 'abc',
+      });
+
+      expect(iterator.checkpoint()).toEqual({ page: 1, size: 2, index: 0, filterHash: 'abc' });
+      await takeIds(iterator, 3);
+
+      const checkpoint = iterator.checkpoint();
+      expect(checkpoint).toEqual({ page: 2, size: 2, index: 1, filterHash: 'abc', lastId: '3' });
+      expect(JSON.parse(JSON.stringify(checkpoint))).toEqual(checkpoint);
+    });
+
+    it('should continue from a checkpoint without repeating items', async () => {
+      const ids = ['1', '2', '3', '4', '5'];
+      const first = createPaginatedIterator(pagedFetcher(ids), { pageSize: 2 });
+      await takeIds(first, 3);
+
+      const fetcher = pagedFetcher(ids);
+      const resumed = createPaginatedIterator(fetcher, { resumeFrom: first.checkpoint() });
+
+      expect(await takeIds(resumed, 10)).toEqual(['4', '5']);
+      expect(fetcher.mock.calls[0][0]).toEqual({ number: 2, size: 2 });
+    });
+
+    it('should realign when items were added before the checkpoint', async () => {
+      const first = createPaginatedIterator(pagedFetcher(['1', '2', '3', '4', '5', '6']), {
+        pageSize: 2,
+      });
+      await takeIds(first, 3);
+
+      // Item 0 was added, so item 3 moved to the end of page 2
+      const resumed = createPaginatedIterator(pagedFetcher(['0', '1', '2', '3', '4', '5', '6']), {
+        resumeFrom: first.checkpoint(),
+      });
+
+      expect(await takeIds(resumed, 10)).toEqual(['4', '5', '6']);
+    });
+
+    it('should replay the page rather than skip items when the last item left it', async () => {
+      const first = createPaginatedIterator(pagedFetcher(['1', '2', '3', '4', '5', '6']), {
+        pageSize: 2,
+      });
+      await takeIds(first, 3);
+
+      // Two items were added in front, so item 3 moved on to page 3
+      const resumed = createPaginatedIterator(pagedFetcher(['a', 'b', '1', '2', '3', '4']), {
+        resumeFrom: first.checkpoint(),
+      });
+
+      expect(await takeIds(resumed, 10)).toEqual(['1', '2', '3', '4']);
+    });
+
+    it('should fail when the params changed since the checkpoint', async () => {
+      const first = createPaginatedIterator(pagedFetcher(['1', '2', '3']), {
+        filterHash: hashParams({ filter: { organizationId: 1 } }),
+      });
+      await takeIds(first, 1);
+
+      const resumed = createPaginatedIterator(pagedFetcher(['1', '2', '3']), {
+        resumeFrom: first.checkpoint(),
+        filterHash: hashParams({ filter: { organizationId: 2 } }),
+      });
+
+      await expect(resumed.toArray()).rejects.toThrow(ITGlueCheckpointError);
+      await expect(resumed.toArray()).rejects.toThrow('params have changed');
+    });
+
+    it('should hash params independently of key order', () => {
+      expect(hashParams({ filter: { name: 'a', id: 1 }, sort: 'name' })).toBe(
+        hashParams({ sort: 'name', filter: { id: 1, name: 'a' } })
+      );
+      expect(hashParams({ filter: { id: 1 } })).not.toBe(hashParams({ filter: { id: 2 } }));
+    });
+  });
+
+  describe('concurrency', () => {
+    /**
+     * Fetcher over ten pages of one item whose responses resolve in reverse order,
+     * tracking how many requests are in flight
+     */
+    function slowFetcher(totalPages: number = 10) {
+      let inFlight = 0;
+      const state = { maxInFlight: 0, requested: [] as number[] };
+      const fetcher = vi.fn(async ({ number = 1 }: { number?: number }) => {
+        state.requested.push(number);
+        inFlight++;
+        state.maxInFlight = Math.max(state.maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, (totalPages - number) * 2));
+        inFlight--;
+        return {
+          data: [{ id: String(number) }],
+          meta: {
+            currentPage: number,
+            nextPage: number < totalPages ? number + 1 : null,
+            prevPage: number > 1 ? number - 1 : null,
+            totalPages,
+            totalCount: totalPages,
+          },
+        };
+      });
+      return { fetcher, state };
+    }
+
+    it('should fetch pages in parallel and still yield items in order', async () => {
+      const { fetcher, state } = slowFetcher();
+
+      const items = await createPaginatedIterator(fetcher, { concurrency: 4 }).toArray();
+
+      expect(items.map((item) => item.id)).toEqual(
+        ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10']
+      );
+      expect(fetcher).toHaveBeenCalledTimes(10);
+      expect(state.maxInFlight).toBe(4);
+    });
+
+    it('should stay sequential by default', async () => {
+      const { fetcher, state } = slowFetcher(3);
+
+      await createPageIterator(fetcher).toArray();
+
+      expect(state.maxInFlight).toBe(1);
+    });
+
+    it('should not prefetch pages beyond maxItems', async () => {
+      const { fetcher, state } = slowFetcher();
+
+      const items = await createPaginatedIterator(fetcher, {
+        concurrency: 4,
+        pageSize: 1,
+        maxItems: 3,
+      }).toArray();
+
+      expect(items).toHaveLength(3);
+      expect(state.requested).toEqual([1, 2, 3]);
+    });
+
+    it('should only prefetch as far ahead as the consumer allows', async () => {
+      const { fetcher, state } = slowFetcher();
+      const iterator = createPageIterator(fetcher, { concurrency: 3 })[Symbol.asyncIterator]();
+
+      await iterator.next();
+      await iterator.next();
+
+      expect(state.requested).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should surface a prefetched page failure when that page is reached', async () => {
+      const fetcher = vi.fn(async ({ number = 1 }: { number?: number }) => {
+        if (number === 3) {
+          throw new Error('page 3 failed');
+        }
+        return {
+          data: [{ id: String(number) }],
+          meta: {
+            currentPage: number,
+            nextPage: number + 1,
+            prevPage: null,
+            totalPages: 5,
+            totalCount: 5,
+          },
+        };
+      });
+      const seen: string[] = [];
+
+      await expect(async () => {
+        for await (const item of createPaginatedIterator(fetcher, { concurrency: 3 })) {
+          seen.push(item.id);
+        }
+      }).rejects.toThrow('page 3 failed');
+      expect(seen).toEqual(['1', '2']);
+    });
+
+    it('should reject a concurrency below 1', () => {
+      expect(() => createPaginatedIterator(vi.fn(), { concurrency: 0 })).toThrow(
+        'Pagination concurrency must be at least 1'
+      );
+    });
   });
 
   describe('createPageIterator', () => {
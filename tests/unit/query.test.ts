@@ -0,0 +1,155 @@
+/**
+ * Tests for the fluent query builder
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../../src/http.js';
+import { resolveConfig } from '../../src/config.js';
+import { ConfigurationsResource } from '../../src/resources/configurations.js';
+
+/**
+ * Build a page of configurations for the fetch test double
+ */
+function pageResponse(ids: number[], page: number, totalPages: number): Response {
+  return new Response(
+    JSON.stringify({
+      data: ids.map((id) => ({
+        id: String(id),
+        type: 'configurations',
+        attributes: { name: `config-${id}` },
+      })),
+      meta: {
+        'current-page': page,
+        'next-page': page < totalPages ? page + 1 : null,
+        'prev-page': page > 1 ? page - 1 : null,
+        'total-pages': totalPages,
+        'total-count': 42,
+      },
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/vnd.api+json' } }
+  );
+}
+
+function createResource(fetch: typeof globalThis.fetch): ConfigurationsResource {
+  return new ConfigurationsResource(
+    new HttpClient(resolveConfig({ apiKey: 'ITG.test-api-key', fetch }))
+  );
+}
+
+function requestedUrl(fetch: ReturnType<typeof vi.fn>, call: number = 0): URL {
+  return new URL(fetch.mock.calls[call][0] as string);
+}
+
+describe('QueryBuilder', () => {
+  it('should build list params from where, sort and include', () => {
+    const since = new Date('2024-01-01T00:00:00Z');
+    const params = createResource(vi.fn())
+      .query()
+      .where('organizationId', 12)
+      .where('updatedAt', '>=', since)
+      .where('updatedAt', '<', '2024-02-01')
+      .where('id', 'notIn', [7])
+      .include('passwords')
+      .sort('-name', 'id')
+      .toParams();
+
+    expect(params).toEqual({
+      filter: {
+        organizationId: 12,
+        updatedAt: { gte: since, lt: '2024-02-01' },
+        id: { notIn: [7] },
+      },
+      sort: ['-name', 'id'],
+      include: ['passwords'],
+    });
+  });
+
+  it('should send the query through list', async () => {
+    const fetch = vi.fn().mockResolvedValue(pageResponse([1, 2, 3], 1, 1));
+
+    const { data } = await createResource(fetch)
+      .query()
+      .where('organizationId', 12)
+      .where('updatedAt', '>', '2024-01-01')
+      .include('passwords')
+      .sort('-name')
+      .limit(2)
+      .list();
+
+    expect(data.map((config) => config.id)).toEqual(['1', '2']);
+    const url = requestedUrl(fetch);
+    expect(url.searchParams.get('filter[organization-id]')).toBe('12');
+    expect(url.searchParams.get('filter[updated-at[gt]]')).toBe('2024-01-01');
+    expect(url.searchParams.get('include')).toBe('passwords');
+    expect(url.searchParams.get('sort')).toBe('-name');
+    expect(url.searchParams.get('page[size]')).toBe('2');
+  });
+
+  it('should fetch a single resource for first', async () => {
+    const fetch = vi.fn().mockResolvedValue(pageResponse([5], 1, 42));
+
+    const config = await createResource(fetch).query().where('name', 'router').first();
+
+    expect(config?.name).toBe('config-5');
+    expect(requestedUrl(fetch).searchParams.get('page[size]')).toBe('1');
+  });
+
+  it('should return undefined from first when nothing matches', async () => {
+    const fetch = vi.fn().mockResolvedValue(pageResponse([], 1, 1));
+
+    expect(await createResource(fetch).query().first()).toBeUndefined();
+  });
+
+  it('should read count from the pagination meta', async () => {
+    const fetch = vi.fn().mockResolvedValue(pageResponse([5], 1, 42));
+
+    expect(await createResource(fetch).query().count()).toBe(42);
+    expect(requestedUrl(fetch).searchParams.get('page[size]')).toBe('1');
+  });
+
+  it('should iterate across pages and stop at the limit', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(pageResponse([1, 2], 1, 3))
+      .mockResolvedValueOnce(pageResponse([3, 4], 2, 3))
+      .mockResolvedValueOnce(pageResponse([5, 6], 3, 3));
+
+    const ids: string[] = [];
+    for await (const config of createResource(fetch).query().sort('name').limit(3)) {
+      ids.push(config.id);
+    }
+
+    expect(ids).toEqual(['1', '2', '3']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(requestedUrl(fetch, 1).searchParams.get('sort')).toBe('name');
+  });
+
+  it('should size pages to the limit when iterating', async () => {
+    const fetch = vi.fn().mockImplementation(async () => pageResponse([1, 2, 3, 4, 5], 1, 9));
+
+    const configs = [];
+    for await (const config of createResource(fetch).query().limit(5)) {
+      configs.push(config);
+    }
+
+    expect(configs).toHaveLength(5);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(requestedUrl(fetch).searchParams.get('page[size]')).toBe('5');
+  });
+
+  it('should cap the iteration page size at the API maximum', async () => {
+    const fetch = vi.fn().mockImplementation(async () => pageResponse([1], 1, 1));
+
+    for await (const _config of createResource(fetch).query().limit(5000)) {
+      // drain
+    }
+
+    expect(requestedUrl(fetch).searchParams.get('page[size]')).toBe('1000');
+  });
+
+  it('should reject a negative limit', () => {
+    expect(() => createResource(vi.fn()).query().limit(-1)).toThrow(
+      'Query limit must be zero or more'
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for rate limit stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileRateLimitStore, MemoryRateLimitStore } from '../../src/rate-limit-store.js';
+import { RateLimiter } from '../../src/rate-limiter.js';
+import { DEFAULT_RATE_LIMIT_CONFIG } from '../../src/types/index.js';
+
+describe('MemoryRateLimitStore', () => {
+  it('should grant slots until the limit is reached', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.reserve(0, 100, 2)).granted).toBe(true);
+    expect((await store.reserve(0, 101, 2)).granted).toBe(true);
+
+    const denied = await store.reserve(0, 102, 2);
+    expect(denied.granted).toBe(false);
+    expect(denied.timestamps).toEqual([100, 101]);
+  });
+
+  it('should prune timestamps outside the window', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.sync(0, 1, 50);
+    await store.reserve(0, 100, 3);
+    await store.reserve(0, 150, 3);
+
+    expect(await store.snapshot(100)).toEqual([100, 150]);
+
+    const result = await store.reserve(120, 200, 2);
+    expect(result.granted).toBe(true);
+    expect(result.timestamps).toEqual([150, 200]);
+  });
+
+  it('should be shareable between rate limiters', async () => {
+    const store = new MemoryRateLimitStore();
+    const config = { ...DEFAULT_RATE_LIMIT_CONFIG, maxRequests: 100, store };
+    const first = new RateLimiter(config);
+    const second = new RateLimiter(config);
+
+    await first.acquire();
+    await first.acquire();
+    await second.acquire();
+
+    expect(second.currentCount).toBe(3);
+    expect(await store.snapshot(0)).toHaveLength(3);
+  });
+
+  it('should pad the window to the used count without dropping timestamps', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.reserve(0, 100, 10);
+    await store.reserve(0, 110, 10);
+
+    expect(await store.sync(0, 4, 90)).toEqual([90, 90, 100, 110]);
+    expect(await store.sync(0, 1, 120)).toEqual([90, 90, 100, 110]);
+  });
+
+  it('should keep other limiters\' reservations when one syncs with the server', async () => {
+    const store = new MemoryRateLimitStore();
+    const config = { ...DEFAULT_RATE_LIMIT_CONFIG, maxRequests: 100, store };
+    const first = new RateLimiter(config);
+    const second = new RateLimiter(config);
+
+    await first.acquire();
+    await first.acquire();
+    await first.acquire();
+    await second.acquire();
+    await second.acquire();
+
+    // The server has only counted the second limiter's requests so far
+    second.syncFromServer({ remaining: 98 });
+    await second.acquire();
+
+    expect(await store.snapshot(0)).toHaveLength(6);
+  });
+});
+
+describe('FileRateLimitStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itglue-rate-limit-'));
+    filePath = join(dir, 'window.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist reservations to disk', async () => {
+    const store = new FileRateLimitStore(filePath);
+
+    await store.reserve(0, 100, 10);
+    await store.reserve(0, 200, 10);
+
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual([100, 200]);
+    expect(await new FileRateLimitStore(filePath).snapshot(150)).toEqual([200]);
+  });
+
+  it('should enforce the limit across concurrent store instances', async () => {
+    const stores = [new FileRateLimitStore(filePath), new FileRateLimitStore(filePath)];
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => stores[i % 2].reserve(0, 100 + i, 5))
+    );
+
+    expect(results.filter((result) => result.granted)).toHaveLength(5);
+    expect(await stores[0].snapshot(0)).toHaveLength(5);
+  });
+
+  it('should merge a server sync with reservations from other instances', async () => {
+    const stores = [new FileRateLimitStore(filePath), new FileRateLimitStore(filePath)];
+    await stores[0].reserve(0, 100, 10);
+    await stores[0].reserve(0, 110, 10);
+    await stores[1].reserve(0, 120, 10);
+
+    expect(await stores[1].sync(0, 2, 90)).toEqual([100, 110, 120]);
+    expect(await stores[1].sync(0, 4, 90)).toEqual([90, 100, 110, 120]);
+  });
+
+  it('should break stale locks', async () => {
+    await writeFile(`${filePath}.lock`, '');
+    const store = new FileRateLimitStore(filePath, { staleLockMs: -1 });
+
+    await expect(store.reserve(0, 100, 1)).resolves.toMatchObject({ granted: true });
+    expect(await readdir(dir)).toEqual(['window.json']);
+  });
+
+  it('should not release a lock another process has taken over', async () => {
+    const store = new FileRateLimitStore(filePath);
+    const internals = store as unknown as { read: () => Promise<number[]> };
+    vi.spyOn(internals, 'read').mockImplementation(async () => {
+      await writeFile(`${filePath}.lock`, 'other-owner');
+      return [];
+    });
+
+    await store.snapshot(0);
+
+    expect(await readFile(`${filePath}.lock`, 'utf8')).toBe('other-owner');
+  });
+
+  it('should time out when the lock is held', async () => {
+    await writeFile(`${filePath}.lock`, '');
+    const store = new FileRateLimitStore(filePath, { lockTimeoutMs: 20 });
+
+    await expect(store.clear()).rejects.toThrow('Timed out waiting for rate limit lock');
+  });
+
+  it('should treat a corrupt file as empty', async () => {
+    await writeFile(filePath, 'not json');
+    const store = new FileRateLimitStore(filePath);
+
+    expect(await store.snapshot(0)).toEqual([]);
+  });
+});
@@ -3,7 +3,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { RateLimiter, retryWithBackoff } from '../../src/rate-limiter.js';
+import {
+  RateLimiter,
+  parseRateLimitHeaders,
+  retryWithBackoff,
+} from '../../src/rate-limiter.js';
 import { DEFAULT_RATE_LIMIT_CONFIG } from '../../src/types/index.js';
 
 describe('RateLimiter', () => {
@@ -184,6 +188,108 @@ describe('RateLimiter', () => {
     expect(status.isThrottling).toBe(false);
     expect(status.isLimited).toBe(false);
   });
+
+  it('should reserve slots atomically for concurrent callers', async () => {
+    const config = {
+      ...DEFAULT_RATE_LIMIT_CONFIG,
+      maxRequests: 10,
+      windowMs: 60000,
+      throttleThreshold: 1,
+    };
+    const limiter = new RateLimiter(config);
+    const granted: number[] = [];
+
+    const reservations = Array.from({ length: 15 }, (_, i) =>
+      limiter.acquire().then(() => granted.push(i))
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(limiter.currentCount).toBe(10);
+    expect(limiter.getStatus().queued).toBe(5);
+
+    await vi.advanceTimersByTimeAsync(60001);
+    await Promise.all(reservations);
+
+    // Waiters are served in FIFO order
+    expect(granted).toEqual(Array.from({ length: 15 }, (_, i) => i));
+    expect(limiter.getStatus().queued).toBe(0);
+  });
+
+  it('should grant slots immediately when disabled', async () => {
+    const limiter = new RateLimiter({ ...DEFAULT_RATE_LIMIT_CONFIG, enabled: false });
+
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+
+    expect(limiter.currentCount).toBe(0);
+  });
+
+  it('should add requests reported by the server', () => {
+    const config = { ...DEFAULT_RATE_LIMIT_CONFIG, maxRequests: 100, windowMs: 60000 };
+    const limiter = new RateLimiter(config);
+
+    limiter.recordRequest();
+    limiter.syncFromServer({ limit: 100, remaining: 40, resetAt: Date.now() + 30000 });
+
+    expect(limiter.currentCount).toBe(60);
+    expect(limiter.getStatus().server?.remaining).toBe(40);
+
+    // Unseen requests expire when the server window resets
+    vi.advanceTimersByTime(31000);
+    expect(limiter.currentCount).toBe(1);
+  });
+
+  it('should drop requests the server no longer counts', () => {
+    const config = { ...DEFAULT_RATE_LIMIT_CONFIG, maxRequests: 100 };
+    const limiter = new RateLimiter(config);
+
+    for (let i = 0; i < 10; i++) {
+      limiter.recordRequest();
+    }
+    limiter.syncFromServer({ remaining: 97 });
+
+    expect(limiter.currentCount).toBe(3);
+  });
+
+  it('should adopt the limit reported by the server', () => {
+    const limiter = new RateLimiter(DEFAULT_RATE_LIMIT_CONFIG);
+
+    limiter.syncFromHeaders(new Headers({
+      'X-RateLimit-Limit': '1000',
+      'X-RateLimit-Remaining': '999',
+    }));
+
+    expect(limiter.maxRequests).toBe(1000);
+    expect(limiter.remaining).toBe(999);
+  });
+});
+
+describe('parseRateLimitHeaders', () => {
+  it('should return undefined without a remaining count', () => {
+    expect(parseRateLimitHeaders(new Headers())).toBeUndefined();
+  });
+
+  it('should parse X-RateLimit headers', () => {
+    const now = Date.now();
+    const state = parseRateLimitHeaders(new Headers({
+      'X-RateLimit-Limit': '3000',
+      'X-RateLimit-Remaining': '2500',
+      'X-RateLimit-Reset': '60',
+    }));
+
+    expect(state?.limit).toBe(3000);
+    expect(state?.remaining).toBe(2500);
+    expect(state?.resetAt).toBeGreaterThanOrEqual(now + 60000);
+  });
+
+  it('should treat large reset values as epoch seconds', () => {
+    const state = parseRateLimitHeaders(new Headers({
+      'RateLimit-Remaining': '10',
+      'RateLimit-Reset': '1900000000',
+    }));
+
+    expect(state?.resetAt).toBe(1900000000000);
+  });
 });
 
 describe('retryWithBackoff', () => {
@@ -260,6 +366,61 @@ describe('retryWithBackoff', () => {
     expect(delay2).toBeGreaterThanOrEqual(delay1 * 0.7);
   }, 5000);
 
+  it('should use the delay requested by getRetryDelay', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('fail'))
+      .mockResolvedValue('success');
+    const getRetryDelay = vi.fn().mockReturnValue(1);
+
+    const result = await retryWithBackoff(fn, {
+      maxRetries: 1,
+      baseDelayMs: 10000,
+      getRetryDelay,
+    });
+
+    expect(result).toBe('success');
+    expect(getRetryDelay).toHaveBeenCalledWith(expect.any(Error));
+  }, 1000);
+
+  it('should use full jitter when requested', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('fail'))
+      .mockResolvedValue('success');
+
+    try {
+      await retryWithBackoff(fn, { maxRetries: 1, baseDelayMs: 20, jitter: 'full', onRetry });
+    } finally {
+      vi.restoreAllMocks();
+    }
+
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 10);
+  }, 1000);
+
+  it('should stop retrying at the deadline', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('fail'));
+
+    await expect(
+      retryWithBackoff(fn, { maxRetries: 5, baseDelayMs: 1000, deadlineMs: 100 })
+    ).rejects.toThrow('fail');
+    expect(fn).toHaveBeenCalledTimes(1);
+  }, 1000);
+
+  it('should abort an attempt still running at the deadline', async () => {
+    const fn = vi.fn(
+      (signal?: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason));
+        })
+    );
+
+    await expect(
+      retryWithBackoff(fn, { maxRetries: 5, baseDelayMs: 10, deadlineMs: 50 })
+    ).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  }, 1000);
+
   it('should respect max delay', async () => {
     const fn = vi.fn()
       .mockRejectedValueOnce(new Error('fail'))
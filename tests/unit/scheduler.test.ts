@@ -0,0 +1,92 @@
+/**
+ * Tests for the request scheduler
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler } from '../../src/scheduler.js';
+
+/**
+ * Create a task that stays pending until released
+ */
+function deferred(): { task: () => Promise<void>; release: () => void } {
+  let release = (): void => {};
+  const promise = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { task: () => promise, release };
+}
+
+describe('RequestScheduler', () => {
+  it('should limit the number of running tasks', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+
+    expect(scheduler.getStatus()).toMatchObject({ active: 2, queued: 1 });
+
+    tasks[0].release();
+    await results[0];
+    expect(scheduler.getStatus()).toMatchObject({ active: 2, queued: 0 });
+
+    tasks[1].release();
+    tasks[2].release();
+    await Promise.all(results);
+    expect(scheduler.getStatus()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should start higher priority work first', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = deferred();
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = [
+      scheduler.schedule(record('background'), 'background'),
+      scheduler.schedule(record('normal-1')),
+      scheduler.schedule(record('interactive'), 'interactive'),
+      scheduler.schedule(record('normal-2'), 'normal'),
+    ];
+
+    expect(scheduler.getStatus().lanes).toEqual({ interactive: 1, normal: 2, background: 1 });
+
+    blocker.release();
+    await Promise.all([running, ...queued]);
+
+    expect(order).toEqual(['interactive', 'normal-1', 'normal-2', 'background']);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+
+    const failed = scheduler.schedule(async () => {
+      throw new Error('boom');
+    });
+    const next = scheduler.schedule(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+    expect(scheduler.getStatus().active).toBe(0);
+  });
+
+  it('should drop queued tasks when their signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = deferred();
+    const controller = new AbortController();
+    const task = vi.fn(async () => 'ran');
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = scheduler.schedule(task, 'normal', controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(scheduler.getStatus().queued).toBe(0);
+
+    blocker.release();
+    await running;
+    expect(task).not.toHaveBeenCalled();
+  });
+});